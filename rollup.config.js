@@ -1,15 +1,65 @@
 import ts from "rollup-plugin-ts";
 import terser from "@rollup/plugin-terser";
+import path from "node:path";
 
-export default {
-  // Use the TS source file as entry. The plugin will transpile it.
-  input: "src/index.ts",
+/**
+ * Modules of the main bundle that the testing utilities import, which are
+ * marked as external and imported from the main entry point instead.
+ */
+const mainBundleModules = [
+  path.resolve("src/errors/index.ts"),
+  path.resolve("src/exceptions/index.ts"),
+];
 
-  // Output a single source file only, with source map and types.
-  output: {
-    file: "dist/index.js",
-    sourcemap: true,
+export default [
+  {
+    // Use the TS source file as entry. The plugin will transpile it.
+    input: "src/index.ts",
+
+    // Output a single source file only, with source map and types.
+    output: {
+      file: "dist/index.js",
+      sourcemap: true,
+    },
+
+    plugins: [ts(), terser()],
+  },
+
+  // The testing utilities are bundled separately so that they are not included
+  // in production bundles. The library's exception and error classes are
+  // imported from the main bundle instead of being bundled again, so that
+  // `instanceof` checks work across both entry points.
+  {
+    input: "src/testing/index.ts",
+    output: {
+      file: "dist/testing/index.js",
+      sourcemap: true,
+      paths: Object.fromEntries(
+        mainBundleModules.map((id) => [id, "../index.js"])
+      ),
+    },
+    external: mainBundleModules,
+    plugins: [ts(), terser()],
   },
 
-  plugins: [ts(), terser()],
-};
+  // The code generator is bundled separately so that its NodeJS only code is
+  // not included in the main library bundle.
+  {
+    input: "src/codegen/index.ts",
+    output: {
+      file: "dist/codegen/index.js",
+      sourcemap: true,
+    },
+    external: [/^node:/],
+    plugins: [ts(), terser()],
+  },
+  {
+    input: "src/codegen/cli.ts",
+    output: {
+      file: "dist/codegen/cli.js",
+      banner: "#!/usr/bin/env node",
+    },
+    external: [/^node:/],
+    plugins: [ts(), terser()],
+  },
+];
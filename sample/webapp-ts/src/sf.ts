@@ -14,6 +14,9 @@ export const sf = new SimplerFetch({
     // It can also be useful for interfacing with external API
     stripeBilling: {
       url: "http://api.stripe.com/billing",
+
+      // Fail fast instead of waiting on the external API when it is down
+      circuitBreaker: { failureThreshold: 5, openDurationInMilliseconds: 30000 },
     },
   },
 });
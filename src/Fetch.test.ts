@@ -0,0 +1,419 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { BaseUrlConfig, RetryPolicy } from "./types";
+
+import { SimplerFetchError } from "./errors";
+import { HttpException, ValidationException } from "./exceptions";
+import { SimplerFetch } from "./SimplerFetch";
+import { createMockTransport } from "./testing";
+
+function setup(baseUrlConfig: Omit<BaseUrlConfig, "url"> = {}) {
+  const mock = createMockTransport<"v1">();
+  const sf = new SimplerFetch({
+    baseUrlConfigs: { v1: { url: "https://example.com/v1", ...baseUrlConfig } },
+    fetch: mock.fetch,
+  });
+
+  return { mock, sf };
+}
+
+describe("retry", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const retryPolicy = {
+    initialDelayInMilliseconds: 100,
+    jitter: false,
+  } satisfies RetryPolicy;
+
+  function getUsers(
+    sf: ReturnType<typeof setup>["sf"],
+    policy: RetryPolicy = retryPolicy
+  ) {
+    return sf
+      .GET()
+      .useSavedBaseUrl("v1")
+      .path("/users")
+      .parseResponseAsJson()
+      .parseResponseExceptionAsJson()
+      .retry(policy)
+      .finishConfig()
+      .runAndThrowOnException();
+  }
+
+  it("retries with exponential backoff up to the max attempts", async () => {
+    const { mock, sf } = setup();
+    mock.on("GET /users", { status: 503, json: {} });
+
+    const promise = getUsers(sf);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mock.calls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(mock.calls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mock.calls).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(199);
+    expect(mock.calls).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(1);
+    const res = await promise;
+    expect(mock.calls).toHaveLength(3);
+    expect(res.status).toBe(503);
+    expect(res.attempts).toBe(3);
+  });
+
+  it("stops retrying once the response is not retryable", async () => {
+    const { mock, sf } = setup();
+    mock.on("GET /users", { networkError: true }, { times: 1 });
+    mock.on("GET /users", { json: [] });
+
+    const promise = getUsers(sf);
+    await vi.advanceTimersByTimeAsync(100);
+    const res = await promise;
+
+    expect(res.ok).toBe(true);
+    expect(res.attempts).toBe(2);
+    expect(mock.calls).toHaveLength(2);
+  });
+
+  it("waits for the number of seconds in the Retry-After header", async () => {
+    const { mock, sf } = setup();
+    mock.on(
+      "GET /users",
+      { status: 429, headers: { "Retry-After": "2" }, json: {} },
+      { times: 1 }
+    );
+    mock.on("GET /users", { json: [] });
+
+    const promise = getUsers(sf);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(mock.calls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await promise).attempts).toBe(2);
+  });
+
+  it("waits until the HTTP date in the Retry-After header", async () => {
+    vi.setSystemTime(new Date("2026-01-01T00:00:00.000Z"));
+
+    const { mock, sf } = setup();
+    mock.on(
+      "GET /users",
+      {
+        status: 503,
+        headers: { "Retry-After": "Thu, 01 Jan 2026 00:00:03 GMT" },
+        json: {},
+      },
+      { times: 1 }
+    );
+    mock.on("GET /users", { json: [] });
+
+    const promise = getUsers(sf);
+
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(mock.calls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await promise).attempts).toBe(2);
+  });
+
+  it("caps the Retry-After delay at the max delay", async () => {
+    const { mock, sf } = setup();
+    mock.on(
+      "GET /users",
+      { status: 503, headers: { "Retry-After": "60" }, json: {} },
+      { times: 1 }
+    );
+    mock.on("GET /users", { json: [] });
+
+    const promise = getUsers(sf, {
+      ...retryPolicy,
+      maxDelayInMilliseconds: 500,
+    });
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect((await promise).attempts).toBe(2);
+  });
+
+  it("requires an opt-in to retry non-idempotent methods", async () => {
+    const { sf } = setup();
+
+    expect(() =>
+      sf
+        .POST()
+        .useSavedBaseUrl("v1")
+        .path("/users")
+        .noRequestBody()
+        .parseResponseAsJson()
+        .parseResponseExceptionAsJson()
+        .retry(retryPolicy)
+    ).toThrow(SimplerFetchError);
+  });
+
+  it("does not retry non-idempotent methods with the base URL's default retry policy", async () => {
+    const { mock, sf } = setup({ defaultRetryPolicy: retryPolicy });
+    mock.on("POST /users", { status: 503, json: {} });
+
+    const res = await sf
+      .POST()
+      .useSavedBaseUrl("v1")
+      .path("/users")
+      .noRequestBody()
+      .parseResponseAsJson()
+      .parseResponseExceptionAsJson()
+      .finishConfig()
+      .runAndThrowOnException();
+
+    expect(res.attempts).toBe(1);
+    expect(mock.calls).toHaveLength(1);
+  });
+
+  it("stops retrying once the abort signal is aborted", async () => {
+    const { mock, sf } = setup();
+    mock.on("GET /users", { status: 503, json: {} });
+
+    const abortController = new AbortController();
+    const promise = sf
+      .GET()
+      .useSavedBaseUrl("v1")
+      .path("/users")
+      .parseResponseAsJson()
+      .parseResponseExceptionAsJson()
+      .useAbortSignal(abortController.signal)
+      .retry(retryPolicy)
+      .finishConfig()
+      .runSafely();
+
+    await vi.advanceTimersByTimeAsync(50);
+    abortController.abort();
+    const [err] = await promise;
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(err).toBeInstanceOf(Error);
+    expect(mock.calls).toHaveLength(1);
+  });
+});
+
+describe("dedupe", () => {
+  function getUsers(sf: ReturnType<typeof setup>["sf"]) {
+    return sf
+      .GET()
+      .useSavedBaseUrl("v1")
+      .path("/users")
+      .parseResponseAsJson()
+      .parseResponseExceptionAsJson()
+      .dedupe()
+      .finishConfig()
+      .runAndThrowOnException();
+  }
+
+  it("shares a single API call between concurrent identical API calls", async () => {
+    const { mock, sf } = setup();
+    mock.on("GET /users", { json: [1], delayInMilliseconds: 10 });
+
+    const responses = await Promise.all([getUsers(sf), getUsers(sf)]);
+
+    expect(mock.calls).toHaveLength(1);
+    expect(responses.map(({ data }) => data)).toEqual([[1], [1]]);
+  });
+
+  it("makes a new API call once the shared API call settles", async () => {
+    const { mock, sf } = setup();
+    mock.on("GET /users", { json: [1] });
+
+    await getUsers(sf);
+    await getUsers(sf);
+
+    expect(mock.calls).toHaveLength(2);
+  });
+
+  it("rejects every caller if the shared API call fails, and releases it", async () => {
+    const { mock, sf } = setup();
+    mock.on(
+      "GET /users",
+      { networkError: true, delayInMilliseconds: 10 },
+      { times: 1 }
+    );
+    mock.on("GET /users", { json: [1] });
+
+    const results = await Promise.allSettled([getUsers(sf), getUsers(sf)]);
+
+    expect(mock.calls).toHaveLength(1);
+    expect(results).toEqual([
+      { status: "rejected", reason: expect.any(TypeError) },
+      { status: "rejected", reason: expect.any(TypeError) },
+    ]);
+
+    expect((await getUsers(sf)).data).toEqual([1]);
+    expect(mock.calls).toHaveLength(2);
+  });
+
+  it("does not share API calls with different headers", async () => {
+    const { mock, sf } = setup();
+    mock.on("GET /users", { json: [1], delayInMilliseconds: 10 });
+
+    await Promise.all(
+      ["a", "b"].map((token) =>
+        sf
+          .GET()
+          .useSavedBaseUrl("v1")
+          .path("/users")
+          .parseResponseAsJson()
+          .parseResponseExceptionAsJson()
+          .useHeader({ Authorization: token })
+          .dedupe()
+          .finishConfig()
+          .runAndThrowOnException()
+      )
+    );
+
+    expect(mock.calls).toHaveLength(2);
+  });
+
+  it("can only be called once", () => {
+    const { sf } = setup();
+
+    expect(() =>
+      sf
+        .GET()
+        .useSavedBaseUrl("v1")
+        .path("/users")
+        .parseResponseAsJson()
+        .parseResponseExceptionAsJson()
+        .dedupe()
+        .dedupe()
+    ).toThrow(SimplerFetchError);
+  });
+});
+
+describe("runAndThrowOnNonOk", () => {
+  function getUser(sf: ReturnType<typeof setup>["sf"]) {
+    return sf
+      .GET()
+      .useSavedBaseUrl("v1")
+      .path("/users/1")
+      .parseResponseAsJson<{ id: number }>()
+      .parseResponseExceptionAsJson<{ message: string }>()
+      .finishConfig();
+  }
+
+  it("resolves with responses with a 2xx status code", async () => {
+    const { mock, sf } = setup();
+    mock.on("GET /users/1", { status: 201, json: { id: 1 } });
+
+    const res = await getUser(sf).runAndThrowOnNonOk();
+
+    expect(res.ok).toBe(true);
+    expect(res.status).toBe(201);
+    expect(res.data).toEqual({ id: 1 });
+  });
+
+  it("throws a HttpException with the status and parsed response exception data", async () => {
+    const { mock, sf } = setup();
+    mock.on("GET /users/1", {
+      status: 404,
+      headers: { "X-Request-ID": "request-1" },
+      json: { message: "Not found" },
+    });
+
+    const error = await getUser(sf)
+      .runAndThrowOnNonOk()
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect(error).toMatchObject({
+      method: "GET",
+      url: "https://example.com/v1/users/1",
+      status: 404,
+      data: { message: "Not found" },
+    });
+    expect((error as HttpException).headers.get("X-Request-ID")).toBe(
+      "request-1"
+    );
+    expect((error as HttpException).response.ok).toBe(false);
+  });
+
+  it("throws a ValidationException if the response exception data is invalid", async () => {
+    const { mock, sf } = setup();
+    mock.on("GET /users/1", { status: 500, json: "Internal error" });
+
+    const error = await sf
+      .GET()
+      .useSavedBaseUrl("v1")
+      .path("/users/1")
+      .parseResponseAsJson()
+      .parseResponseExceptionAsJson(
+        (data): data is { message: string } =>
+          typeof data === "object" && data !== null && "message" in data
+      )
+      .finishConfig()
+      .runAndThrowOnNonOk()
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(ValidationException);
+  });
+});
+
+describe("runSafelyAndExpectOk", () => {
+  it("returns ok responses without an exception", async () => {
+    const { mock, sf } = setup();
+    mock.on("GET /users", { json: [1] });
+
+    const [err, res] = await sf
+      .GET()
+      .useSavedBaseUrl("v1")
+      .path("/users")
+      .parseResponseAsJson<Array<number>>()
+      .parseResponseExceptionAsJson()
+      .finishConfig()
+      .runSafelyAndExpectOk();
+
+    expect(err).toBeNull();
+    expect(res?.data).toEqual([1]);
+  });
+
+  it("returns non ok responses as a HttpException instead of throwing", async () => {
+    const { mock, sf } = setup();
+    mock.on("GET /users", { status: 503, json: { message: "Down" } });
+
+    const [err, res] = await sf
+      .GET()
+      .useSavedBaseUrl("v1")
+      .path("/users")
+      .parseResponseAsJson()
+      .parseResponseExceptionAsJson<{ message: string }>()
+      .finishConfig()
+      .runSafelyAndExpectOk();
+
+    expect(res).toBeNull();
+    expect(err).toBeInstanceOf(HttpException);
+    expect(err instanceof HttpException && err.data.message).toBe("Down");
+  });
+
+  it("returns other exceptions without throwing", async () => {
+    const { mock, sf } = setup();
+    mock.on("GET /users", { networkError: true });
+
+    const [err, res] = await sf
+      .GET()
+      .useSavedBaseUrl("v1")
+      .path("/users")
+      .parseResponseAsJson()
+      .parseResponseExceptionAsJson()
+      .finishConfig()
+      .runSafelyAndExpectOk();
+
+    expect(res).toBeNull();
+    expect(err).toBeInstanceOf(TypeError);
+  });
+});
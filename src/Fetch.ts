@@ -1,12 +1,51 @@
 import type { ExpectedFetchConfig_for_Fetch } from "./fetch-config";
-import type { ApiResponse } from "./types";
+import type {
+  ApiResponse,
+  ApiResponseTiming,
+  ApiResponseUnion,
+  CachedResponse,
+  FetchFunction,
+  MiddlewareRequest,
+  PaginationNextPage,
+  PaginationOptions,
+  PaginationStrategy,
+  Paginator,
+  ProgressHandler,
+  ResponseCacheStorage,
+  ResponseParser,
+  ResponseParserContext,
+  RequestException,
+  RequestTraceContext,
+  RetryPolicy,
+  TraceContextOptions,
+} from "./types";
 
+import { fromCachedResponse } from "./cache/fromCachedResponse";
+import { toCachedResponse } from "./cache/toCachedResponse";
+import { withCachedBody } from "./cache/withCachedBody";
 import {
+  AbortException,
   TimeoutException,
   HeaderException,
+  HttpException,
+  SimplerFetchException,
   ValidationException,
 } from "./exceptions";
+import { createPaginator } from "./pagination/createPaginator";
+import { RateLimiter } from "./rate-limit/RateLimiter";
+import { RequestTelemetry } from "./telemetry/RequestTelemetry";
+import { createRequestTraceContext } from "./trace-context/createRequestTraceContext";
+import { getTraceContextHeaders } from "./trace-context/getTraceContextHeaders";
+import { anyAbortSignal } from "./utils/anyAbortSignal";
+import { defaultRetryPolicy } from "./utils/defaultRetryPolicy";
+import { getRetryDelay } from "./utils/getRetryDelay";
+import { isIdempotentMethod } from "./utils/isIdempotentMethod";
 import { safe } from "./utils/safe";
+import { serializeQueryParams } from "./utils/serializeQueryParams";
+import { sleep } from "./utils/sleep";
+import { withDownloadProgress } from "./utils/withDownloadProgress";
+import { withTimeout } from "./utils/withTimeout";
+import { withUploadProgress } from "./utils/withUploadProgress";
 
 /**
  * Class used to configure `fetch` request options with the builder pattern
@@ -15,8 +54,15 @@ import { safe } from "./utils/safe";
  *
  * This **SHOULD NOT** be used by library users directly, this should be
  * constructed using the `Builder` class.
+ *
+ * `ResponseStatusDataTypes` maps every status code to its response data type
+ * if the API call is typed with an OpenAPI `paths` type, see `ApiResponseUnion`.
  */
-export class Fetch<ResponseDataType, ResponseExceptionDataType> {
+export class Fetch<
+  ResponseDataType,
+  ResponseExceptionDataType,
+  ResponseStatusDataTypes = undefined
+> {
   /**
    * Low level constructor API that should not be used by library users.
    * This is only used by the `MethodBuilder` class.
@@ -45,16 +91,73 @@ export class Fetch<ResponseDataType, ResponseExceptionDataType> {
       return url.href;
     }
 
-    // Create new query params by merging existing query params in the URL and
-    // the custom query params object.
-    url.search = new URLSearchParams([
-      ...Array.from(url.searchParams.entries()),
-      ...Object.entries(this.config.queryParams),
-    ]).toString();
+    // Create new query params by appending the serialized custom query params
+    // object to any existing query params in the URL.
+    const serializedQueryParams = serializeQueryParams(
+      this.config.queryParams,
+      this.config.querySerialization
+    );
+    if (serializedQueryParams !== "") {
+      url.search =
+        url.search === ""
+          ? serializedQueryParams
+          : `${url.search}&${serializedQueryParams}`;
+    }
 
     return url.href;
   }
 
+  /**
+   * ### About
+   * Header generation process
+   *
+   * Run header functions if any to ensure array of headers is now an array of
+   * header objects, the array of headers have the type of `object |
+   * Promise<object>` because header generator functions can be async to let
+   * users delay generating headers until API call. Use case include only
+   * generating a very short lived token at the last minute before the API call
+   * is made to ensure that it does not expire by the time it reaches the API
+   * server.
+   *
+   * `await Promise.all` on the array of headers ensure all resolves before
+   * reducing the array of header objects into a single header object.
+   *
+   * Using `Promise.all` instead of `Promise.allSettled` so that it will stop
+   * running if any of the header generator function fails instead of waiting
+   * for everything to complete since even if the rest resolves they will be
+   * thrown away and not used, so no point awaiting on them.
+   *
+   * Headers are generated once per API call instead of once per retry attempt,
+   * so that identical API calls can be identified by their headers before the
+   * API call is made for request deduplication.
+   *
+   * ### Method 'safety'
+   * Any errors thrown here will be converted into `HeaderException` and get
+   * bubbled up to the library user through the `safe` function wrapper.
+   */
+  async #generateHeaders(): Promise<Record<string, string>> | never {
+    return (
+      await withTimeout(
+        Promise.all([
+          // Auth headers come first so that they can be overridden by headers
+          // set with `useHeader`.
+          ...(this.config.authProvider === undefined
+            ? []
+            : [this.config.authProvider.getAuthHeaders()]),
+
+          ...this.config.headers.map((header) =>
+            typeof header === "function" ? header() : header
+          ),
+        ]).catch((err) => {
+          // Wrap with HeaderException, see reasoning in `HeaderException` docs.
+          throw new HeaderException(err);
+        }),
+        "headerGeneration",
+        this.config.phaseTimeouts?.headerGeneration
+      )
+    ).reduce<Record<string, string>>((obj, item) => ({ ...obj, ...item }), {});
+  }
+
   /**
    * ### About
    * This private method wraps the `fetch` function to make the API call after
@@ -72,14 +175,31 @@ export class Fetch<ResponseDataType, ResponseExceptionDataType> {
    * itself, because checking for control flow is not enforced / not possible
    * with TS. Therefore this union with `never` is just used for documentation.
    */
-  #fetch = async (): Promise<Response> | never =>
-    fetch(this.getUrl(), {
+  async #fetch(
+    headers: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<Response> | never {
+    // Remove any content type without a multipart boundary for `FormData`
+    // request bodies, e.g. one set with default headers, so that `fetch` can
+    // set it together with the generated boundary.
+    const requestHeaders =
+      typeof FormData !== "undefined" && this.config.body instanceof FormData
+        ? Object.fromEntries(
+            Object.entries(headers).filter(
+              ([key, value]) =>
+                key.toLowerCase() !== "content-type" ||
+                value.includes("boundary=")
+            )
+          )
+        : headers;
+
+    const init: RequestInit = {
       // Properties are set following the order of specificity:
       // 1. `RequestInit` options object is applied first
       // 2. HTTP method, which cannot be overwritten by `options`
       // 3. Instance specific headers, which cannot be overwritten by `options`
       // 4. Instance specific body data, which cannot be overwritten by `options`
-      // 5. Instance specific timeout abortController's signal, which cannot be
+      // 5. Attempt specific timeout abortController's signal, which cannot be
       // overwritten by `options`.
       //
       // From this order, we can see that the values in `options` object cannot
@@ -91,36 +211,8 @@ export class Fetch<ResponseDataType, ResponseExceptionDataType> {
 
       method: this.config.method,
 
-      // Header generation process
-      //
-      // Run header functions if any to ensure array of headers is now an array
-      // of header objects, the array of headers have the type of `object |
-      // Promise<object>` because header generator functions can be async to let
-      // users delay generating headers until API call. Use case include only
-      // generating a very short lived token at the last minute before the API
-      // call is made to ensure that it does not expire by the time it reaches
-      // the API server.
-      //
-      // `await Promise.all` on the array of headers ensure all resolves before
-      // reducing the array of header objects into a single header object.
-      //
-      // Using `Promise.all` instead of `Promise.allSettled` so that it will
-      // stop running if any of the header generator function fails instead of
-      // waiting for everything to complete since even if the rest resolves
-      // they will be thrown away and not used, so no point awaiting on them.
-      //
-      // Any errors thrown here will be converted into `HeaderException` and get
-      // bubbled up to the library user through the `safe` function wrapper.
-      headers: (
-        await Promise.all(
-          this.config.headers.map((header) =>
-            typeof header === "function" ? header() : header
-          )
-        ).catch((err) => {
-          // Wrap with HeaderException, see reasoning in `HeaderException` docs.
-          throw new HeaderException(err);
-        })
-      ).reduce((obj, item) => ({ ...obj, ...item }), {}),
+      // Headers generated with `#generateHeaders` before the API call
+      headers: requestHeaders,
 
       // Because fetch's body property accepts many different types, instead
       // of doing transformations like JSON.stringify here, this library relies
@@ -131,11 +223,92 @@ export class Fetch<ResponseDataType, ResponseExceptionDataType> {
       // See `body` docs on its type
       body: this.config.body,
 
-      // Using optional chaining as `#abortController` may be undefined if user
-      // did not set a custom timeout with `timeoutAfter` method, if so, just
-      // let it be undefined and it will just be ignored.
-      signal: this.config.abortController?.signal,
+      // `signal` may be undefined if user did not set a custom timeout with
+      // `timeoutAfter` method, if so, just let it be undefined and it will just
+      // be ignored.
+      signal,
+    };
+
+    // Pass the priority set with the `priority` method as the native priority
+    // hint, which overrides any priority set with `useOptions` like the other
+    // instance specific values above.
+    if (this.config.priority !== undefined) {
+      init.priority =
+        this.config.priority === "normal" ? "auto" : this.config.priority;
+    }
+
+    // Send the request body as a stream that reports the upload progress, which
+    // is created again for every attempt since streams can only be read once.
+    if (
+      this.config.uploadProgressHandler !== undefined &&
+      this.config.body != null
+    ) {
+      const { body, contentType } = withUploadProgress(
+        this.config.body,
+        this.config.uploadProgressHandler
+      );
+
+      init.body = body;
+
+      // Required for streaming request bodies, but it is not in the DOM lib's
+      // `RequestInit` type yet.
+      (init as RequestInit & { duplex: "half" }).duplex = "half";
+
+      // `fetch` does not generate content types for streams, so use the one it
+      // would have generated for the original request body if none is set.
+      if (
+        contentType !== null &&
+        !Object.keys(requestHeaders).some(
+          (key) => key.toLowerCase() === "content-type"
+        )
+      ) {
+        init.headers = { ...requestHeaders, "Content-Type": contentType };
+      }
+    }
+
+    return this.#runMiddlewares(0, {
+      url: this.getUrl(),
+      method: this.config.method,
+      baseUrlIdentifier: this.config.baseUrlIdentifier,
+      path: this.config.path,
+      pathTemplate: this.config.pathTemplate ?? this.config.path,
+      init,
     });
+  }
+
+  /**
+   * ### About
+   * Run the middleware at the given index of the middleware chain, where each
+   * middleware's `next` function runs the middleware after it. Once all the
+   * middlewares have ran, the actual `fetch` function is called with the
+   * (possibly rewritten) request.
+   *
+   * Middlewares can short-circuit the chain by not calling `next` and return
+   * their own `Response` directly.
+   */
+  #runMiddlewares(
+    index: number,
+    request: MiddlewareRequest
+  ): Promise<Response> | never {
+    const middleware = this.config.middlewares[index];
+
+    if (middleware === undefined) {
+      // Use the global `fetch` function if no custom one is used. It is looked
+      // up on every call instead of being saved on library load so that it
+      // can be lazily polyfilled.
+      //
+      // Custom `fetch` function is called as a standalone function instead of
+      // as a method on the config object, since browsers' native `fetch`
+      // function throws an "Illegal invocation" error if called with any other
+      // `this` value.
+      const fetchFunction: FetchFunction = this.config.fetch ?? fetch;
+      return fetchFunction(request.url, request.init, request);
+    }
+
+    return middleware(request, (request) =>
+      this.#runMiddlewares(index + 1, request)
+    );
+  }
 
   /**
    * ### About
@@ -154,25 +327,25 @@ export class Fetch<ResponseDataType, ResponseExceptionDataType> {
    * implement timeout, whatever that is returned from `#fetch` is directly
    * returned to this method's caller.
    */
-  async #fetchWithOptionalTimeout(): Promise<Response> | never {
-    // If no custom timeout specified, run `#fetch` and return directly.
-    if (this.config.abortController === undefined) {
-      return this.#fetch();
+  async #fetchWithOptionalTimeout(
+    headers: Record<string, string>,
+    abortSignal: AbortSignal | undefined
+  ): Promise<Response> | never {
+    // If no custom timeout specified, run `#fetch` with the run's abort signal
+    // if any and return directly.
+    if (this.config.timeoutInMilliseconds === undefined) {
+      return this.#fetch(headers, abortSignal);
     }
 
+    // A new `AbortController` is created for every call instead of once per
+    // `Fetch` instance, since a controller cannot be reused once it is aborted
+    // and this method is called once for every retry attempt.
+    const abortController = new AbortController();
+
     // Create new timeout using the custom timeout milliseconds value, and save
     // the timeoutID so that the timer can be cleared to skip this callback if
     // the API returns before the timeout.
     //
-    // As TS notes, the `this.#abortController` variable could be changed and
-    // became  undefined/null between the time that this setTimeout callback
-    // function is defined and when this is triggered. Since there is no other
-    // code that will modify this variable, its value can be safely assumed to
-    // not be deleted when this callback is called, which means that the
-    // non-null assertion operator can be used. However just to be extra safe,
-    // an optional chaining operator is used instead, so in the event where it
-    // is somehow undefined/null, this will not error out.
-    //
     // If `this.#fetch` method call throws an exception that is not caused by
     // this timeout, for e.g. an exception caused by DNS failure, the call to
     // `clearTimeout` will be skipped and this abort method will still be
@@ -181,15 +354,24 @@ export class Fetch<ResponseDataType, ResponseExceptionDataType> {
     // ignored and will not throw a new error.
     const timeoutID = setTimeout(
       () =>
-        this.config.abortController?.abort(
+        abortController.abort(
           new TimeoutException(
-            `${this.config.timeoutInMilliseconds}ms time out exceeded`
+            "response",
+            // Type cast is safe since it is checked above
+            this.config.timeoutInMilliseconds as number
           )
         ),
       this.config.timeoutInMilliseconds
     );
 
-    const res = await this.#fetch();
+    // Combine with the run's abort signal if any, so that the API call is
+    // cancelled by whichever is aborted first.
+    const res = await this.#fetch(
+      headers,
+      abortSignal === undefined
+        ? abortController.signal
+        : anyAbortSignal([abortSignal, abortController.signal])
+    );
 
     // What if the fetch call errors out and this clearTimeout is not called?
     // If `this.#fetch` method call throws an Error that is not caused by the
@@ -204,6 +386,450 @@ export class Fetch<ResponseDataType, ResponseExceptionDataType> {
     return res;
   }
 
+  /**
+   * ### About
+   * This private method wraps the `#fetchWithRateLimit` method to fail
+   * fast with a `CircuitOpenException` if the base URL's circuit breaker is
+   * open, and to record the result of the API call in the circuit breaker.
+   *
+   * Network failures, timeouts and responses with a failure status code are
+   * recorded as failures, while API calls cancelled with the run's abort signal
+   * and any other exceptions are not recorded.
+   *
+   * ### Method 'safety'
+   * This calls `#fetchWithRateLimit` which might throw an exception when
+   * something goes wrong, so use of this method should be wrapped with the
+   * `safe` function.
+   */
+  async #fetchWithCircuitBreaker(
+    headers: Record<string, string>,
+    abortSignal: AbortSignal | undefined
+  ): Promise<Response> | never {
+    const circuitBreaker = this.config.circuitBreaker;
+
+    if (circuitBreaker === undefined) {
+      return this.#fetchWithRateLimit(headers, abortSignal);
+    }
+
+    const isProbe = circuitBreaker.beforeRequest();
+
+    try {
+      const response = await this.#fetchWithRateLimit(headers, abortSignal);
+
+      circuitBreaker.recordResult(
+        isProbe,
+        circuitBreaker.isFailureStatus(response.status) ? "failure" : "success"
+      );
+
+      return response;
+    } catch (error) {
+      circuitBreaker.recordResult(
+        isProbe,
+        !abortSignal?.aborted &&
+          (error instanceof TypeError || error instanceof TimeoutException)
+          ? "failure"
+          : "ignored"
+      );
+
+      throw error;
+    }
+  }
+
+  /**
+   * ### About
+   * This private method wraps the `#fetchWithOptionalTimeout` method to wait
+   * for the base URL's rate limiter and the instance's request scheduler to
+   * let the API call through by its priority before making it, and to update
+   * the base URL's rate limiter with the response's rate limit headers.
+   *
+   * The concurrency slot is released once the response headers are received,
+   * and the time spent waiting is not counted towards the `timeoutAfter`
+   * timeout, but is counted towards the overall timeout.
+   *
+   * ### Method 'safety'
+   * This calls `#fetchWithOptionalTimeout` which might throw an exception when
+   * something goes wrong, so use of this method should be wrapped with the
+   * `safe` function. Waiting for the rate limiter rejects with the abort
+   * signal's reason once the run's abort signal is aborted.
+   */
+  async #fetchWithRateLimit(
+    headers: Record<string, string>,
+    abortSignal: AbortSignal | undefined
+  ): Promise<Response> | never {
+    const rateLimiters = [
+      this.config.rateLimiter,
+      this.config.scheduler,
+    ].filter(
+      (rateLimiter): rateLimiter is RateLimiter => rateLimiter !== undefined
+    );
+
+    if (rateLimiters.length === 0) {
+      return this.#fetchWithOptionalTimeout(headers, abortSignal);
+    }
+
+    const releases: Array<() => void> = [];
+
+    try {
+      // Wait for the base URL's rate limiter before the instance's scheduler,
+      // so that API calls blocked by their base URL's rate limit do not take
+      // up the concurrency slots shared by every base URL.
+      for (const rateLimiter of rateLimiters) {
+        releases.push(
+          await rateLimiter.acquire(abortSignal, this.config.priority)
+        );
+      }
+
+      const response = await this.#fetchWithOptionalTimeout(
+        headers,
+        abortSignal
+      );
+      this.config.rateLimiter?.updateFromResponse(response);
+      return response;
+    } finally {
+      releases.forEach((release) => release());
+    }
+  }
+
+  /**
+   * ### About
+   * This private method wraps the `#fetchWithCircuitBreaker` method to
+   * implement retries according to the retry policy set with the `retry`
+   * method or the base URL's `defaultRetryPolicy`.
+   *
+   * Only network failures (`TypeError`), custom timeouts (`TimeoutException`)
+   * and responses with a retryable status code are retried, since any other
+   * exceptions like `HeaderException` will just fail again. Retrying stops
+   * once the circuit breaker opens, since `CircuitOpenException` is thrown.
+   *
+   * ### Method 'safety'
+   * This calls `#fetchWithCircuitBreaker` which might throw an exception when
+   * something goes wrong, so use of this method should be wrapped with the
+   * `safe` function. If all the attempts failed, the last attempt's exception
+   * will be thrown.
+   *
+   * ### Return type
+   * Returns the `Response` of the last attempt, together with the number of
+   * attempts made.
+   */
+  async #fetchWithRetry(
+    headers: Record<string, string>,
+    abortSignal: AbortSignal | undefined
+  ):
+    | Promise<{
+        response: Response;
+        attempts: number;
+      }>
+    | never {
+    const retryPolicy = this.config.retryPolicy;
+
+    // Non-idempotent methods are only retried with an explicit opt-in, which
+    // is enforced by the `retry` method, but not for base URL default retry
+    // policies since those apply to every HTTP method.
+    const maxAttempts =
+      retryPolicy === undefined ||
+      (!isIdempotentMethod(this.config.method) &&
+        retryPolicy.retryNonIdempotentMethods !== true)
+        ? 1
+        : retryPolicy.maxAttempts ?? defaultRetryPolicy.maxAttempts;
+
+    const retryOnStatus: ReadonlyArray<number> =
+      retryPolicy?.retryOnStatus ?? defaultRetryPolicy.retryOnStatus;
+
+    for (let attempts = 1; ; attempts++) {
+      // Stop retrying once the API call is cancelled with the external abort
+      // signal or timed out by the overall timeout, which also stops any
+      // backoff delay early.
+      abortSignal?.throwIfAborted();
+
+      try {
+        const response = await this.#fetchWithCircuitBreaker(
+          headers,
+          abortSignal
+        );
+
+        if (
+          attempts >= maxAttempts ||
+          !retryOnStatus.includes(response.status)
+        ) {
+          return { response, attempts };
+        }
+
+        // Discard the unused response body so that the underlying connection
+        // can be released before the next attempt.
+        await response.body?.cancel().catch(() => {});
+
+        // Type cast is safe since `maxAttempts` is 1 if there is no policy.
+        await sleep(
+          getRetryDelay(retryPolicy as RetryPolicy, attempts, response),
+          abortSignal
+        );
+      } catch (error) {
+        if (
+          attempts >= maxAttempts ||
+          abortSignal?.aborted ||
+          !(error instanceof TypeError || error instanceof TimeoutException)
+        ) {
+          throw error;
+        }
+
+        // Type cast is safe since `maxAttempts` is 1 if there is no policy.
+        await sleep(
+          getRetryDelay(retryPolicy as RetryPolicy, attempts),
+          abortSignal
+        );
+      }
+    }
+  }
+
+  /**
+   * ### About
+   * This private method wraps the `#fetchWithCache` method to replay the API
+   * call once with newly generated headers if it gets a `401 Unauthorized`
+   * response, after the base URL's auth provider refreshes the credentials.
+   *
+   * Concurrent API calls that get a `401` wait on the same refresh, see
+   * `AuthProvider` for more details.
+   *
+   * ### Method 'safety'
+   * Any errors thrown by the auth provider while refreshing the credentials
+   * will be converted into `HeaderException`, same as header generation.
+   *
+   * ### Return type
+   * Same as `#fetchWithCache`, where `attempts` includes the attempts made for
+   * the replayed API call.
+   */
+  async #fetchWithAuth(
+    headers: Record<string, string>,
+    abortSignal: AbortSignal | undefined
+  ):
+    | Promise<{
+        response: Response;
+        attempts: number;
+      }>
+    | never {
+    const authProvider = this.config.authProvider;
+    const result = await this.#fetchWithCache(headers, abortSignal);
+
+    if (authProvider === undefined || result.response.status !== 401) {
+      return result;
+    }
+
+    // Discard the unused response body so that the underlying connection can
+    // be released before the API call is replayed.
+    await result.response.body?.cancel().catch(() => {});
+
+    await authProvider.onUnauthorized(headers).catch((err) => {
+      throw new HeaderException(err);
+    });
+
+    // Newly generated headers override the original headers, while keeping
+    // the headers added after header generation like the trace context headers.
+    const replayResult = await this.#fetchWithCache(
+      { ...headers, ...(await this.#generateHeaders()) },
+      abortSignal
+    );
+
+    return {
+      response: replayResult.response,
+      attempts: result.attempts + replayResult.attempts,
+    };
+  }
+
+  /**
+   * ### About
+   * This private method wraps the `#fetchWithRetry` method to implement the
+   * response cache for `GET` and `HEAD` API calls, if the response cache is
+   * enabled on the `SimplerFetch` instance.
+   *
+   * Fresh cached responses are used directly without making any API calls.
+   * Stale cached responses are revalidated with `If-None-Match` and
+   * `If-Modified-Since` headers, where a `304 Not Modified` response means that
+   * the cached response can be used. Stale cached responses that are within
+   * their `stale-while-revalidate` window are used directly while they are
+   * revalidated in the background.
+   *
+   * ### Method 'safety'
+   * This calls `#fetchWithRetry` which might throw an exception when something
+   * goes wrong, so use of this method should be wrapped with the `safe`
+   * function.
+   *
+   * ### Return type
+   * Same as `#fetchWithRetry`, where `attempts` is 0 if the cached response is
+   * used without making any API calls.
+   */
+  async #fetchWithCache(
+    headers: Record<string, string>,
+    abortSignal: AbortSignal | undefined
+  ):
+    | Promise<{
+        response: Response;
+        attempts: number;
+      }>
+    | never {
+    const cacheStorage = this.config.cacheStorage;
+    const cacheMode = this.config.cacheMode ?? "default";
+
+    if (cacheStorage === undefined || cacheMode === "no-store") {
+      return this.#fetchWithRetry(headers, abortSignal);
+    }
+
+    const url = this.getUrl();
+
+    // Successful API calls with HTTP methods that modify the resource on the
+    // server invalidates its cached responses, following RFC 9111 section 4.4
+    if (this.config.method !== "GET" && this.config.method !== "HEAD") {
+      const result = await this.#fetchWithRetry(headers, abortSignal);
+
+      if (result.response.ok) {
+        await cacheStorage.delete(`GET ${url}`);
+        await cacheStorage.delete(`HEAD ${url}`);
+      }
+
+      return result;
+    }
+
+    // Streaming responses are read incrementally by the library user, so they
+    // are neither served from nor stored in the response cache.
+    if (this.config.isStreamingResponse) {
+      return this.#fetchWithRetry(headers, abortSignal);
+    }
+
+    const cacheKey = `${this.config.method} ${url}`;
+    const requestHeaders = new Headers(headers);
+
+    // Cached responses can only be used for requests with the same values for
+    // the headers named in the cached response's `Vary` header.
+    const storedResponse = await cacheStorage.get(cacheKey);
+    const cachedResponse =
+      storedResponse !== undefined &&
+      Object.entries(storedResponse.varyHeaders).every(
+        ([name, value]) => requestHeaders.get(name) === value
+      )
+        ? storedResponse
+        : undefined;
+
+    if (cachedResponse !== undefined && cacheMode !== "no-cache") {
+      const age = Date.now() - cachedResponse.storedAt;
+
+      if (
+        cacheMode === "force-cache" ||
+        age < cachedResponse.maxAgeInMilliseconds
+      ) {
+        return { response: fromCachedResponse(cachedResponse), attempts: 0 };
+      }
+
+      if (
+        age <
+        cachedResponse.maxAgeInMilliseconds +
+          cachedResponse.staleWhileRevalidateInMilliseconds
+      ) {
+        // Ignore any failures since the stale cached response can still be
+        // used until the end of its `stale-while-revalidate` window.
+        //
+        // The run's abort signal is not used since the background revalidation
+        // should not be cancelled together with this API call.
+        //
+        // The response body is read here since the response is only stored
+        // once its body has been read fully.
+        this.#revalidateCachedResponse(
+          cacheKey,
+          headers,
+          cachedResponse,
+          undefined
+        )
+          .then(({ response }) => response.arrayBuffer())
+          .catch(() => {});
+
+        return { response: fromCachedResponse(cachedResponse), attempts: 0 };
+      }
+    }
+
+    return this.#revalidateCachedResponse(
+      cacheKey,
+      headers,
+      cachedResponse,
+      abortSignal
+    );
+  }
+
+  /**
+   * ### About
+   * Make the API call with conditional request headers generated from the
+   * cached response if any, and update the response cache with the result.
+   *
+   * If the API server responds with `304 Not Modified`, the cached response is
+   * refreshed and returned instead.
+   */
+  async #revalidateCachedResponse(
+    cacheKey: string,
+    headers: Record<string, string>,
+    cachedResponse: CachedResponse | undefined,
+    abortSignal: AbortSignal | undefined
+  ): Promise<{ response: Response; attempts: number }> | never {
+    // Type cast is safe since this is only called with the response cache
+    // enabled.
+    const cacheStorage = this.config.cacheStorage as ResponseCacheStorage;
+
+    const cachedResponseHeaders = new Headers(cachedResponse?.headers);
+    const etag = cachedResponseHeaders.get("ETag");
+    const lastModified = cachedResponseHeaders.get("Last-Modified");
+
+    const result = await this.#fetchWithRetry(
+      {
+        ...headers,
+        ...(etag !== null && { "If-None-Match": etag }),
+        ...(lastModified !== null && { "If-Modified-Since": lastModified }),
+      },
+      abortSignal
+    );
+
+    const requestHeaders = new Headers(headers);
+
+    if (result.response.status === 304 && cachedResponse !== undefined) {
+      const refreshedCachedResponse = toCachedResponse(
+        result.response,
+        cachedResponse.body,
+        requestHeaders,
+        cachedResponse
+      );
+
+      if (refreshedCachedResponse === undefined) {
+        await cacheStorage.delete(cacheKey);
+      } else {
+        await cacheStorage.set(cacheKey, refreshedCachedResponse);
+      }
+
+      return {
+        response: fromCachedResponse(refreshedCachedResponse ?? cachedResponse),
+        attempts: result.attempts,
+      };
+    }
+
+    // Only cache responses that are complete and successful
+    if (result.response.status !== 200 && result.response.status !== 203) {
+      return result;
+    }
+
+    // The response is stored once its body has been read by the response
+    // parser, so that the body is only read once, within the body read timeout
+    // and with download progress tracking.
+    const response = await withCachedBody(result.response, async (body) => {
+      const newCachedResponse = toCachedResponse(
+        result.response,
+        body,
+        requestHeaders
+      );
+
+      if (newCachedResponse === undefined) {
+        await cacheStorage.delete(cacheKey);
+      } else {
+        await cacheStorage.set(cacheKey, newCachedResponse);
+      }
+    });
+
+    return { response, attempts: result.attempts };
+  }
+
   /**
    * # Warning
    * This method is generally not used since this returns the raw HTTP Response
@@ -227,13 +853,354 @@ export class Fetch<ResponseDataType, ResponseExceptionDataType> {
    * ```
    */
   runAndGetRawResponse() {
-    return safe(() => this.#fetchWithOptionalTimeout());
+    return safe(() =>
+      this.#runWithOverallTimeout(
+        async (abortSignal, telemetry, traceContext) => {
+          const headers = await this.#generateHeaders();
+          telemetry.headersResolved();
+
+          const { response, attempts } = await this.#fetchWithAuth(
+            this.#withTraceContextHeaders(headers, traceContext),
+            abortSignal
+          );
+          telemetry.responseReceived(response, attempts);
+
+          return response;
+        }
+      )
+    );
+  }
+
+  /**
+   * ### About
+   * Run the given function with the overall timeout set with `timeoutPhases`
+   * if any, and convert exceptions caused by the external abort signal into
+   * `AbortException`.
+   *
+   * The function is called with the abort signal for this run, which combines
+   * the external abort signal with the overall timeout's abort signal, so that
+   * the underlying API call is also cancelled once the overall timeout is
+   * exceeded instead of running in the background.
+   *
+   * The function is also called with the telemetry of this run, which emits
+   * the first and last telemetry events of the run here, so that exactly one
+   * of `completed` or `failed` is emitted even if the overall timeout is
+   * exceeded.
+   *
+   * The function is also called with the trace context of this run if trace
+   * context propagation is enabled, which is attached to the library's
+   * exceptions here.
+   */
+  async #runWithOverallTimeout<
+    T extends { status: number; ok: boolean; timing?: ApiResponseTiming }
+  >(
+    fn: (
+      abortSignal: AbortSignal | undefined,
+      telemetry: RequestTelemetry,
+      traceContext: RequestTraceContext | undefined
+    ) => Promise<T>
+  ): Promise<T> | never {
+    const traceContext =
+      this.config.traceContext === undefined
+        ? undefined
+        : createRequestTraceContext(this.config.traceContext);
+
+    const telemetry = new RequestTelemetry(this.config.telemetryHandlers, {
+      method: this.config.method,
+      baseUrlIdentifier: this.config.baseUrlIdentifier,
+      pathTemplate: this.config.pathTemplate ?? this.config.path,
+      url: this.getUrl(),
+    });
+    telemetry.requestStart();
+
+    const overallTimeout = this.config.phaseTimeouts?.overall;
+    const overallAbortController =
+      overallTimeout === undefined ? undefined : new AbortController();
+
+    const abortSignals = [
+      this.config.abortSignal,
+      overallAbortController?.signal,
+    ].filter((signal): signal is AbortSignal => signal !== undefined);
+
+    try {
+      const result = await withTimeout(
+        fn(
+          abortSignals.length > 1
+            ? anyAbortSignal(abortSignals)
+            : abortSignals[0],
+          telemetry,
+          traceContext
+        ),
+        "overall",
+        overallTimeout,
+        (timeoutException) => overallAbortController?.abort(timeoutException)
+      );
+
+      telemetry.completed(result, result.timing);
+      return result;
+    } catch (error) {
+      const exception = this.#toAbortException(error);
+
+      // Exceptions of deduplicated API calls are shared, so only the trace
+      // context of the shared API call that was actually sent is attached.
+      if (exception instanceof SimplerFetchException) {
+        exception.traceContext ??= traceContext;
+      }
+
+      telemetry.failed(exception);
+      throw exception;
+    }
+  }
+
+  /**
+   * Add the trace context headers to the generated headers if trace context
+   * propagation is enabled, which override any headers with the same name.
+   *
+   * This is done after header generation so that the generated IDs, which are
+   * unique to every API call, are not used to identify deduplicated API calls.
+   */
+  #withTraceContextHeaders(
+    headers: Record<string, string>,
+    traceContext: RequestTraceContext | undefined
+  ) {
+    return traceContext === undefined
+      ? headers
+      : {
+          ...headers,
+          // Type cast is safe since trace context is only created if it is set
+          ...getTraceContextHeaders(
+            traceContext,
+            this.config.traceContext as TraceContextOptions
+          ),
+        };
+  }
+
+  /**
+   * Convert any exception thrown after the external abort signal is aborted
+   * into an `AbortException`, since the exception would be the abort reason or
+   * an exception caused by the cancellation, so that library users can tell
+   * cancellations apart from other failure modes.
+   */
+  #toAbortException(error: unknown) {
+    return this.config.abortSignal?.aborted
+      ? new AbortException(this.config.abortSignal.reason)
+      : error;
+  }
+
+  /**
+   * Make the API call and parse the response, where any exceptions will be
+   * thrown, use `runSafely` instead to get exceptions back as values.
+   *
+   * If request deduplication is enabled with the `dedupe` method or the base
+   * URL's `dedupe` option, concurrent API calls with the same HTTP method, URL
+   * and generated headers will share a single API call and its parsed result.
+   * API calls with an external abort signal set with `useAbortSignal` or an
+   * overall timeout are not deduplicated, since cancelling it would cancel the
+   * API call for everyone.
+   *
+   * If the API call is typed with an OpenAPI `paths` type, the returned
+   * `ApiResponse` can also be narrowed with `status`, see `ApiResponseUnion`.
+   */
+  runAndThrowOnException(): Promise<
+    ApiResponseUnion<
+      ResponseDataType,
+      ResponseExceptionDataType,
+      ResponseStatusDataTypes
+    >
+  >;
+
+  // The implementation returns the `ApiResponse` of either the response data
+  // or the response exception data, which is only narrowed by status codes in
+  // the overload above if both data types are inferred from the same OpenAPI
+  // operation, since every status code's response is parsed with the parser of
+  // its data type.
+  runAndThrowOnException(): Promise<
+    | ApiResponseUnion<
+        ResponseDataType,
+        ResponseExceptionDataType,
+        ResponseStatusDataTypes
+      >
+    | ApiResponseUnion<ResponseDataType, ResponseExceptionDataType>
+  > {
+    return this.#runWithOverallTimeout((abortSignal, telemetry, traceContext) =>
+      this.#dedupeAndRun(abortSignal, telemetry, traceContext)
+    );
+  }
+
+  /**
+   * Deduplicate the API call if request deduplication is enabled before
+   * running it.
+   */
+  async #dedupeAndRun(
+    abortSignal: AbortSignal | undefined,
+    telemetry: RequestTelemetry,
+    traceContext: RequestTraceContext | undefined
+  ) {
+    const headers = await this.#generateHeaders();
+    telemetry.headersResolved();
+
+    if (
+      !this.config.dedupe ||
+      this.config.isStreamingResponse ||
+      abortSignal !== undefined
+    ) {
+      return this.#run(
+        this.#withTraceContextHeaders(headers, traceContext),
+        abortSignal,
+        telemetry,
+        traceContext
+      );
+    }
+
+    // Only the HTTP method, URL and headers identify a request, so deduplicated
+    // API calls should use the same response parsers and validators, since the
+    // parsed result of the first API call is shared with the rest.
+    const requestKey = JSON.stringify([
+      this.config.method,
+      this.getUrl(),
+      Object.entries(headers)
+        .map(([key, value]) => [key.toLowerCase(), value] as const)
+        .sort(([a], [b]) => (a < b ? -1 : 1)),
+    ]);
+
+    const run = () =>
+      this.#run(
+        this.#withTraceContextHeaders(headers, traceContext),
+        undefined,
+        telemetry,
+        traceContext
+      );
+
+    const inflightRequest = this.config.inflightRequests.get(requestKey) as
+      | ReturnType<typeof run>
+      | undefined;
+    if (inflightRequest !== undefined) {
+      return inflightRequest;
+    }
+
+    const request = run().finally(() =>
+      this.config.inflightRequests.delete(requestKey)
+    );
+    this.config.inflightRequests.set(requestKey, request);
+    return request;
   }
 
   /**
+   * Parse the response with the given parser, with the `bodyRead` timeout set
+   * with `timeoutPhases` if any, where the response body is cancelled once the
+   * timeout is exceeded.
+   *
+   * The parser is also given a `ResponseParserContext` so that streaming
+   * parsers can make the API call again after the response with the same
+   * headers and newly generated header values, e.g. to reconnect to an event
+   * stream.
    */
-  async runAndThrowOnException() {
-    const rawResponse = await this.#fetchWithOptionalTimeout();
+  async #parseWithBodyReadTimeout<T>(
+    responseParser: ResponseParser<T>,
+    rawResponse: Response,
+    headers: Record<string, string>,
+    abortSignal: AbortSignal | undefined,
+    telemetry: RequestTelemetry,
+    traceContext: RequestTraceContext | undefined
+  ) {
+    // Count the bytes read from the response body for the telemetry events by
+    // reporting the download progress, which is skipped for streaming responses
+    // since they are only read after the API call completes.
+    const shouldCountBytes =
+      telemetry.isEnabled && !this.config.isStreamingResponse;
+    let sizeInBytes = shouldCountBytes ? 0 : undefined;
+    const downloadProgressHandler: ProgressHandler | undefined =
+      shouldCountBytes
+        ? (progress) => {
+            sizeInBytes = progress.loaded;
+            this.config.downloadProgressHandler?.(progress);
+          }
+        : this.config.downloadProgressHandler;
+
+    // Parser still receives a normal `Response` when reporting the download
+    // progress, so that it works with every response parser.
+    const response =
+      downloadProgressHandler === undefined
+        ? rawResponse
+        : withDownloadProgress(rawResponse, downloadProgressHandler);
+
+    const context: ResponseParserContext = {
+      refetch: async (refetchHeaders) => {
+        // Made with `#fetchWithAuth` so that the API call is replayed with a
+        // refreshed token if the auth token expired since the last API call.
+        const { response: refetchedResponse, attempts } =
+          await this.#fetchWithAuth(
+            {
+              ...headers,
+              ...(await this.#generateHeaders()),
+              ...refetchHeaders,
+            },
+            abortSignal
+          );
+
+        if (refetchedResponse.ok) {
+          return refetchedResponse;
+        }
+
+        // Responses without a 2xx status code are parsed and validated with
+        // the response exception parser and validator like `#run`, and thrown
+        // as a `HttpException` like `runAndThrowOnNonOk`, since the response
+        // parser only expects successful responses.
+        const data = await this.config.responseExceptionParser(
+          refetchedResponse,
+          context
+        );
+
+        if (
+          this.config.responseExceptionValidator !== undefined &&
+          !this.config.responseExceptionValidator(data)
+        ) {
+          throw new ValidationException("Response exception validation Failed");
+        }
+
+        throw new HttpException(this.config.method, this.getUrl(), {
+          ok: false,
+          status: refetchedResponse.status,
+          headers: refetchedResponse.headers,
+          data,
+          rawResponse: refetchedResponse,
+          didValidatorRun: this.config.responseExceptionValidator !== undefined,
+          attempts,
+          timing: telemetry.getTiming(),
+          traceContext,
+        });
+      },
+      abortSignal,
+    };
+
+    const data = await withTimeout(
+      responseParser(response, context),
+      "bodyRead",
+      this.config.phaseTimeouts?.bodyRead,
+      // Cancelling a body that is being read by the parser can fail since the
+      // stream is locked, which is ignored as the API call has timed out.
+      () => response.body?.cancel().catch(() => {})
+    );
+
+    telemetry.bodyParsed(rawResponse, sizeInBytes);
+    return data;
+  }
+
+  /**
+   * Make the API call with the generated headers, and parse and validate the
+   * response.
+   */
+  async #run(
+    headers: Record<string, string>,
+    abortSignal: AbortSignal | undefined,
+    telemetry: RequestTelemetry,
+    traceContext: RequestTraceContext | undefined
+  ) {
+    const { response: rawResponse, attempts } = await this.#fetchWithAuth(
+      headers,
+      abortSignal
+    );
+    telemetry.responseReceived(rawResponse, attempts);
 
     if (rawResponse.ok) {
       // Assume data to be generic `ResponseDataType` without validation so even
@@ -249,8 +1216,13 @@ export class Fetch<ResponseDataType, ResponseExceptionDataType> {
       // does not properly take place.
       // Reference: https://github.com/microsoft/TypeScript/issues/47144
       //
-      const data = (await this.config.responseParser(
-        rawResponse
+      const data = (await this.#parseWithBodyReadTimeout(
+        this.config.responseParser,
+        rawResponse,
+        headers,
+        abortSignal,
+        telemetry,
+        traceContext
       )) as ResponseDataType;
 
       // Only run validation if a validator is passed in
@@ -265,6 +1237,11 @@ export class Fetch<ResponseDataType, ResponseExceptionDataType> {
         throw new ValidationException("Response validation Failed");
       }
 
+      telemetry.validated(
+        rawResponse,
+        this.config.responseValidator !== undefined
+      );
+
       return {
         ok: true,
         status: rawResponse.status,
@@ -274,6 +1251,12 @@ export class Fetch<ResponseDataType, ResponseExceptionDataType> {
 
         // Assume that as long as validator exists it will be ran
         didValidatorRun: this.config.responseValidator !== undefined,
+
+        attempts,
+
+        timing: telemetry.getTiming(),
+
+        traceContext,
       } satisfies ApiResponse<ResponseDataType>;
     }
 
@@ -293,8 +1276,13 @@ export class Fetch<ResponseDataType, ResponseExceptionDataType> {
     // probably caused by .json value extraction returning `any` so the
     // conversion here does not properly take place.
     // Reference: https://github.com/microsoft/TypeScript/issues/47144
-    const data = (await this.config.responseExceptionParser(
-      rawResponse
+    const data = (await this.#parseWithBodyReadTimeout(
+      this.config.responseExceptionParser,
+      rawResponse,
+      headers,
+      abortSignal,
+      telemetry,
+      traceContext
     )) as ResponseExceptionDataType;
 
     // Only run validation if a validator is passed in
@@ -309,6 +1297,11 @@ export class Fetch<ResponseDataType, ResponseExceptionDataType> {
       throw new ValidationException("Response exception validation Failed");
     }
 
+    telemetry.validated(
+      rawResponse,
+      this.config.responseExceptionValidator !== undefined
+    );
+
     return {
       ok: false,
       status: rawResponse.status,
@@ -318,8 +1311,189 @@ export class Fetch<ResponseDataType, ResponseExceptionDataType> {
 
       // Assume that as long as validator exists it will be ran
       didValidatorRun: this.config.responseExceptionValidator !== undefined,
+
+      attempts,
+
+      timing: telemetry.getTiming(),
+
+      traceContext,
     } satisfies ApiResponse<ResponseExceptionDataType>;
   }
 
   runSafely = () => safe(() => this.runAndThrowOnException());
+
+  /**
+   * Make the API call and parse the response like `runAndThrowOnException`,
+   * but throw a `HttpException` with the parsed and validated response
+   * exception data if the response does not have a 2xx status code, so that
+   * the returned response is always ok. Use `runSafelyAndExpectOk` instead to
+   * get exceptions back as values.
+   */
+  async runAndThrowOnNonOk() {
+    const response = await this.runAndThrowOnException();
+
+    if (!response.ok) {
+      throw new HttpException(
+        this.config.method,
+        this.getUrl(),
+        response as ApiResponse<ResponseExceptionDataType>
+      );
+    }
+
+    return response as Extract<typeof response, { ok: true }>;
+  }
+
+  /**
+   * `safe` variant of `runAndThrowOnNonOk`, where responses without a 2xx
+   * status code are returned as a `HttpException` typed with the response
+   * exception data type.
+   *
+   * @example Handle non ok responses together with the other exceptions
+   * ```typescript
+   * const [err, res] = await sf
+   *   .GET()
+   *   .useSavedBaseUrl("v1")
+   *   .path("/users")
+   *   .parseResponseAsJson<Array<User>>()
+   *   .parseResponseExceptionAsJson<{ message: string }>()
+   *   .finishConfig()
+   *   .runSafelyAndExpectOk();
+   *
+   * if (err instanceof HttpException) return console.log(err.data.message);
+   * if (err) return console.log("API call failed", err);
+   *
+   * console.log("Users", res.data);
+   * ```
+   */
+  runSafelyAndExpectOk = () =>
+    // Type cast is safe since `HttpException`s thrown are always created with
+    // this API call's response exception data.
+    safe(() => this.runAndThrowOnNonOk()) as Promise<
+      | readonly [
+          exception: null,
+          result: Extract<
+            ApiResponseUnion<
+              ResponseDataType,
+              ResponseExceptionDataType,
+              ResponseStatusDataTypes
+            >,
+            { ok: true }
+          >
+        ]
+      | readonly [
+          exception:
+            | Exclude<RequestException, HttpException>
+            | HttpException<ResponseExceptionDataType>,
+          result: null
+        ]
+    >;
+
+  /**
+   * Paginate this API call with the given pagination strategy, which returns
+   * async iterables over the API responses of every page and over the items of
+   * every page. Every page is fetched with the same configuration, i.e. the
+   * same headers, response parsers and validators, with only the query params
+   * or the URL changed by the pagination strategy.
+   *
+   * Pages are fetched lazily as they are iterated over, and the iteration ends
+   * without an exception once the API call is cancelled with `useAbortSignal`.
+   * Any other exceptions are thrown during the iteration.
+   *
+   * @example Iterate over all the items of a cursor paginated endpoint
+   * ```typescript
+   * const users = sf
+   *   .GET()
+   *   .useSavedBaseUrl("v1")
+   *   .path("/users")
+   *   .parseResponseAsJson<{ users: Array<User>; nextCursor?: string }>()
+   *   .parseResponseExceptionAsJson()
+   *   .finishConfig()
+   *   .paginate(cursorPagination({ getNextCursor: (data) => data.nextCursor }), {
+   *     getItems: (data) => data.users,
+   *     maxItems: 1000,
+   *   });
+   *
+   * for await (const user of users.items()) console.log(user);
+   * ```
+   */
+  paginate<
+    Item = ResponseDataType extends ReadonlyArray<infer T> ? T : unknown
+  >(
+    // Item type is only inferred from `getItems` since the built in strategies
+    // work with any item type.
+    strategy: PaginationStrategy<ResponseDataType, NoInfer<Item>>,
+    options: PaginationOptions<ResponseDataType, Item> = {}
+  ): Paginator<ResponseDataType, ResponseExceptionDataType, Item> {
+    return createPaginator(
+      (nextPage, currentUrl) =>
+        new Fetch<ResponseDataType, ResponseExceptionDataType>(
+          this.#getPageConfig<Item>(strategy, nextPage, currentUrl)
+        ),
+      strategy,
+      options,
+      this.config.abortSignal
+    );
+  }
+
+  /**
+   * Get the config of the page to fetch, which is the first page if `nextPage`
+   * is undefined, where the full URL of the next page is resolved against the
+   * URL of the current page.
+   */
+  #getPageConfig<Item>(
+    strategy: PaginationStrategy<ResponseDataType, Item>,
+    nextPage: PaginationNextPage | undefined,
+    currentUrl: string
+  ): ExpectedFetchConfig_for_Fetch {
+    if (nextPage === undefined) {
+      return {
+        ...this.config,
+        queryParams: {
+          ...this.config.queryParams,
+          ...strategy.initialQueryParams,
+        },
+      };
+    }
+
+    if ("url" in nextPage) {
+      const nextUrl = new URL(nextPage.url, currentUrl);
+      const baseUrl = this.config.url;
+      const pathAfterBaseUrl = nextUrl.href.slice(baseUrl.length);
+
+      // Next page URLs under the same base URL keep using the base URL and its
+      // identifier with the rest of the URL as the path, so that middlewares,
+      // mock transport routes and telemetry still see the API path. Any other
+      // URL is used like a custom URL set with `useUrl`.
+      const isUnderBaseUrl =
+        nextUrl.href.startsWith(baseUrl) &&
+        (baseUrl.endsWith("/") || /^([/?#]|$)/.test(pathAfterBaseUrl));
+
+      const url = isUnderBaseUrl ? baseUrl : nextUrl.origin;
+      const path = nextUrl.href.slice(url.length);
+
+      // Keep the path template if the next page only changes the query params,
+      // e.g. `/users?page=2`, so that telemetry can still group the API calls.
+      const isSamePath =
+        isUnderBaseUrl &&
+        path.split("?")[0] === (this.config.path ?? "").split("?")[0];
+
+      return {
+        ...this.config,
+        url,
+        baseUrlIdentifier: isUnderBaseUrl
+          ? this.config.baseUrlIdentifier
+          : undefined,
+        path,
+        pathTemplate: isSamePath
+          ? this.config.pathTemplate
+          : path.split("?")[0] ?? "",
+        queryParams: undefined,
+      };
+    }
+
+    return {
+      ...this.config,
+      queryParams: { ...this.config.queryParams, ...nextPage.queryParams },
+    };
+  }
 }
@@ -2,10 +2,18 @@ import type {
   ExpectedFetchConfig_for_OtherFetchConfigBuilder,
   ExpectedFetchConfig_for_Fetch,
 } from "./fetch-config";
-import type { Header } from "./types";
+import type {
+  CacheMode,
+  Header,
+  PhaseTimeouts,
+  Priority,
+  ProgressHandler,
+  RetryPolicy,
+} from "./types";
 
 import { SimplerFetchError } from "./errors";
 import { Fetch } from "./Fetch";
+import { isIdempotentMethod } from "./utils/isIdempotentMethod";
 
 /**
  * Builder pattern class for users to configure other options like timeout and
@@ -13,7 +21,8 @@ import { Fetch } from "./Fetch";
  */
 export class OtherFetchConfigBuilder<
   ResponseDataType,
-  ResponseExceptionDataType
+  ResponseExceptionDataType,
+  ResponseStatusDataTypes = undefined
 > {
   constructor(
     private readonly config: ExpectedFetchConfig_for_OtherFetchConfigBuilder
@@ -154,6 +163,10 @@ export class OtherFetchConfigBuilder<
    * Use this method to set a custom timeout, instead of relying on brower
    * default timeouts like Chrome's 300 seconds default.
    *
+   * This times out every `fetch` attempt until the response headers are
+   * received, i.e. the `response` phase. Use `timeoutPhases` to also time out
+   * the other phases of the API call such as reading the response body.
+   *
    * @returns Returns the current instance to let you chain method calls
    */
   timeoutAfter(timeoutInMilliseconds: number) {
@@ -164,7 +177,234 @@ export class OtherFetchConfigBuilder<
     }
 
     this.config.timeoutInMilliseconds = timeoutInMilliseconds;
-    this.config.abortController = new AbortController();
+    return this;
+  }
+
+  /**
+   * Set timeouts for the other phases of the API call that are not covered by
+   * `timeoutAfter`, which are
+   * 1. `overall`: An overall deadline for the whole API call, from header
+   *    generation to response body parsing and validation, including all the
+   *    retry attempts.
+   * 1. `headerGeneration`: Running all the header functions, so that a hung
+   *    async header function does not hang the API call.
+   * 1. `bodyRead`: Reading and parsing the response body, so that a slow
+   *    streaming response body does not hang the API call.
+   *
+   * The `TimeoutException` returned when a timeout is exceeded has the `phase`
+   * that timed out and its timeout value.
+   *
+   * @returns Returns the current instance to let you chain method calls
+   */
+  timeoutPhases(phaseTimeouts: PhaseTimeouts) {
+    if (this.config.phaseTimeouts !== undefined) {
+      throw new SimplerFetchError(
+        `'${OtherFetchConfigBuilder.prototype.timeoutPhases.name}' can only be called once`
+      );
+    }
+
+    this.config.phaseTimeouts = phaseTimeouts;
+    return this;
+  }
+
+  /**
+   * Set the priority of this API call, so that higher priority API calls are
+   * made first when they are queued by the `SimplerFetch` instance's
+   * `maxConcurrency` option or the base URL's `rateLimit` option. Queued API
+   * calls can be cancelled with `useAbortSignal`.
+   *
+   * The priority is also passed to `fetch` as the `RequestInit.priority` hint,
+   * where "normal" is passed as "auto", for browsers that support it.
+   *
+   * @returns Returns the current instance to let you chain method calls
+   */
+  priority(priority: Priority) {
+    if (this.config.priority !== undefined) {
+      throw new SimplerFetchError(
+        `'${OtherFetchConfigBuilder.prototype.priority.name}' can only be called once`
+      );
+    }
+
+    this.config.priority = priority;
+    return this;
+  }
+
+  /**
+   * Use an external `AbortSignal` to cancel this API call, e.g. when the
+   * component that made the API call is unmounted.
+   *
+   * This can be used together with `timeoutAfter`, where the API call is
+   * cancelled by whichever happens first. API calls cancelled with the
+   * `AbortSignal` fail with an `AbortException` instead of the
+   * `TimeoutException` used for timeouts.
+   *
+   * @returns Returns the current instance to let you chain method calls
+   */
+  useAbortSignal(abortSignal: AbortSignal) {
+    if (this.config.abortSignal !== undefined) {
+      throw new SimplerFetchError(
+        `'${OtherFetchConfigBuilder.prototype.useAbortSignal.name}' can only be called once`
+      );
+    }
+
+    this.config.abortSignal = abortSignal;
+    return this;
+  }
+
+  /**
+   * Report the download progress of the response body as it is read by the
+   * response parser, where the total number of bytes is taken from the
+   * response's `Content-Length` header if it is not compressed.
+   *
+   * This works with every response parser, since the parser still receives a
+   * normal `Response`.
+   *
+   * @returns Returns the current instance to let you chain method calls
+   */
+  onDownloadProgress(progressHandler: ProgressHandler) {
+    if (this.config.downloadProgressHandler !== undefined) {
+      throw new SimplerFetchError(
+        `'${OtherFetchConfigBuilder.prototype.onDownloadProgress.name}' can only be called once`
+      );
+    }
+
+    this.config.downloadProgressHandler = progressHandler;
+    return this;
+  }
+
+  /**
+   * Report the upload progress of the request body, by sending the request
+   * body as a stream that counts the bytes read by `fetch`. The total number of
+   * bytes is known for every request body type except streams and `FormData`.
+   *
+   * Note that streaming request bodies use the `duplex: "half"` option, which
+   * is supported by NodeJS and Chromium based browsers over HTTP/2 and above,
+   * but not by every runtime.
+   *
+   * @returns Returns the current instance to let you chain method calls
+   */
+  onUploadProgress(progressHandler: ProgressHandler) {
+    if (this.config.uploadProgressHandler !== undefined) {
+      throw new SimplerFetchError(
+        `'${OtherFetchConfigBuilder.prototype.onUploadProgress.name}' can only be called once`
+      );
+    }
+
+    if (this.config.method === "GET" || this.config.method === "HEAD") {
+      throw new SimplerFetchError(
+        `'${OtherFetchConfigBuilder.prototype.onUploadProgress.name}' cannot be used for GET and HEAD requests`
+      );
+    }
+
+    this.config.uploadProgressHandler = progressHandler;
+    return this;
+  }
+
+  #isRetryPolicySet: boolean = false;
+
+  /**
+   * Retry this API call on network failures, timeouts and retryable response
+   * status codes, using exponential backoff between attempts. This overrides
+   * the base URL's `defaultRetryPolicy` if any.
+   *
+   * Non-idempotent HTTP methods like `POST` and `PATCH` can only be retried if
+   * `retryNonIdempotentMethods` is explicitly set to `true`.
+   *
+   * See `RetryPolicy` for all the options and their default values.
+   *
+   * @returns Returns the current instance to let you chain method calls
+   */
+  retry(retryPolicy: RetryPolicy = {}) {
+    if (this.#isRetryPolicySet) {
+      throw new SimplerFetchError(
+        `'${OtherFetchConfigBuilder.prototype.retry.name}' can only be called once`
+      );
+    }
+
+    if (
+      !isIdempotentMethod(this.config.method) &&
+      retryPolicy.retryNonIdempotentMethods !== true
+    ) {
+      throw new SimplerFetchError(
+        `'${OtherFetchConfigBuilder.prototype.retry.name}' requires 'retryNonIdempotentMethods' to be set for ${this.config.method} requests`
+      );
+    }
+
+    this.config.retryPolicy = retryPolicy;
+    this.#isRetryPolicySet = true;
+    return this;
+  }
+
+  #isDedupeSet: boolean = false;
+
+  /**
+   * Deduplicate this API call, so that if there are concurrent identical API
+   * calls with the same URL and generated headers, only a single API call is
+   * made and its parsed result is shared with all the callers.
+   *
+   * Only `GET` and `HEAD` API calls can be deduplicated, since other HTTP
+   * methods have side effects. Deduplicated API calls should use the same
+   * response parsers and validators since their parsed result is shared.
+   * Streaming responses cannot be deduplicated since they can only be read
+   * once.
+   *
+   * @returns Returns the current instance to let you chain method calls
+   */
+  dedupe() {
+    if (this.#isDedupeSet) {
+      throw new SimplerFetchError(
+        `'${OtherFetchConfigBuilder.prototype.dedupe.name}' can only be called once`
+      );
+    }
+
+    if (this.config.method !== "GET" && this.config.method !== "HEAD") {
+      throw new SimplerFetchError(
+        `'${OtherFetchConfigBuilder.prototype.dedupe.name}' can only be used for GET and HEAD requests`
+      );
+    }
+
+    if (this.config.isStreamingResponse) {
+      throw new SimplerFetchError(
+        `'${OtherFetchConfigBuilder.prototype.dedupe.name}' cannot be used with streaming response parsers`
+      );
+    }
+
+    this.config.dedupe = true;
+    this.#isDedupeSet = true;
+    return this;
+  }
+
+  /**
+   * Set how the response cache is used for this API call, see `CacheMode` for
+   * all the available modes. The `default` mode is used if this is not set.
+   *
+   * This can only be used for `GET` and `HEAD` API calls made with a
+   * `SimplerFetch` instance that has the response cache enabled with the
+   * `cache` option, and cannot be used with streaming response parsers since
+   * streaming responses are never cached.
+   *
+   * @returns Returns the current instance to let you chain method calls
+   */
+  cacheMode(cacheMode: CacheMode) {
+    if (this.config.cacheStorage === undefined) {
+      throw new SimplerFetchError(
+        `'${OtherFetchConfigBuilder.prototype.cacheMode.name}' requires the response cache to be enabled with the 'cache' option`
+      );
+    }
+
+    if (this.config.method !== "GET" && this.config.method !== "HEAD") {
+      throw new SimplerFetchError(
+        `'${OtherFetchConfigBuilder.prototype.cacheMode.name}' can only be used for GET and HEAD requests`
+      );
+    }
+
+    if (this.config.isStreamingResponse) {
+      throw new SimplerFetchError(
+        `'${OtherFetchConfigBuilder.prototype.cacheMode.name}' cannot be used with streaming response parsers`
+      );
+    }
+
+    this.config.cacheMode = cacheMode;
     return this;
   }
 
@@ -173,7 +413,9 @@ export class OtherFetchConfigBuilder<
    * the `Fetch` class for it to actually run the API call.
    */
   finishConfig = () =>
-    new Fetch<ResponseDataType, ResponseExceptionDataType>(
-      this.config as ExpectedFetchConfig_for_Fetch
-    );
+    new Fetch<
+      ResponseDataType,
+      ResponseExceptionDataType,
+      ResponseStatusDataTypes
+    >(this.config as ExpectedFetchConfig_for_Fetch);
 }
@@ -0,0 +1,47 @@
+import { describe, expectTypeOf, it } from "vitest";
+
+import { SimplerFetch } from "./SimplerFetch";
+
+type UserQuery = { expand?: string };
+
+const builder = new SimplerFetch({
+  baseUrlConfigs: { v1: { url: "https://example.com/v1" } },
+})
+  .GET()
+  .useSavedBaseUrl("v1");
+
+describe("PathAndQueryParamsBuilder", () => {
+  it("infers the path params from the path template", () => {
+    expectTypeOf(builder.path<"/users/:id/posts/{postId}">)
+      .parameter(1)
+      .toEqualTypeOf<{ id: string | number; postId: string | number }>();
+  });
+
+  it("keeps the query params type as the first type argument of pathWithQueryParams", () => {
+    expectTypeOf(builder.pathWithQueryParams<UserQuery>)
+      .parameter(1)
+      .toEqualTypeOf<UserQuery | undefined>();
+  });
+
+  it("types pathWithQueryParams path params with an explicit query params type", () => {
+    expectTypeOf(
+      builder.pathWithQueryParams<UserQuery, "/users/:id">
+    ).parameters.toEqualTypeOf<
+      [
+        path: "/users/:id",
+        queryParams: UserQuery | undefined,
+        pathParams: { id: string | number }
+      ]
+    >();
+
+    expectTypeOf(
+      builder.pathWithQueryParams<UserQuery, "/users">
+    ).parameters.toEqualTypeOf<[path: "/users", queryParams?: UserQuery]>();
+  });
+
+  it("infers the path template when no type arguments are passed in", () => {
+    expectTypeOf(
+      builder.pathWithQueryParams("/users/:id", { expand: "posts" }, { id: 1 })
+    ).toHaveProperty("parseResponseAsJson");
+  });
+});
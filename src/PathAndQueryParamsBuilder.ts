@@ -3,26 +3,129 @@ import type {
   ExpectedFetchConfig_for_RequestBodyBuilder,
   ExpectedFetchConfig_for_ResponseParserAndValidatorBuilder,
 } from "./fetch-config";
-import type { HTTPMethod } from "./types";
+import type {
+  HTTPMethod,
+  OpenApiOperation,
+  OpenApiPathParamsArgs,
+  OpenApiPathTemplates,
+  OpenApiQueryAndPathParamsArgs,
+  OpenApiRequestBodyType,
+  OpenApiResponseDataType,
+  OpenApiResponseExceptionDataType,
+  OpenApiResponseStatusDataTypes,
+  PathParamsArgs,
+  QueryParams,
+} from "./types";
 
 import { RequestBodyBuilder } from "./RequestBodyBuilder";
 import { ResponseParserAndValidatorBuilder } from "./ResponseParserAndValidatorBuilder";
+import { fillPathParams } from "./utils/fillPathParams";
+
+/**
+ * The Builder class chained after setting the path, which depends on whether
+ * the HTTP method supports request bodies, with the types inferred from the
+ * OpenAPI operation if there is any.
+ */
+type ChainedBuilder<
+  HTTPMethodUsed extends HTTPMethod,
+  Op
+> = HTTPMethodUsed extends "GET" | "HEAD"
+  ? ResponseParserAndValidatorBuilder<
+      OpenApiResponseDataType<Op>,
+      OpenApiResponseExceptionDataType<Op>,
+      OpenApiResponseStatusDataTypes<Op>
+    >
+  : RequestBodyBuilder<
+      OpenApiRequestBodyType<Op>,
+      OpenApiResponseDataType<Op>,
+      OpenApiResponseExceptionDataType<Op>,
+      OpenApiResponseStatusDataTypes<Op>
+    >;
 
 /**
  * Builder pattern class for users to set their API path and URL query params.
+ *
+ * If the base URL has an OpenAPI `paths` type set with
+ * `BaseUrlConfig.openApiPaths`, the paths, path params and query params are
+ * typed using it instead.
  */
 export class PathAndQueryParamsBuilder<
-  const HTTPMethodUsed extends HTTPMethod
+  const HTTPMethodUsed extends HTTPMethod,
+  Paths = undefined
 > {
   constructor(
     private readonly config: ExpectedFetchConfig_for_PathAndQueryParamsBuilder
   ) {}
 
+  #setPathAndQueryParams<Op>(
+    path: string,
+    queryParams?: QueryParams,
+    pathParams?: Record<string, string | number | boolean>
+  ) {
+    this.config.pathTemplate = path;
+    this.config.path = fillPathParams(path, pathParams);
+    this.config.queryParams = queryParams;
+
+    // Both Builder classes are constructed separately since their type
+    // parameters are different, and the caller casts the returned Builder to
+    // the type inferred for the HTTP method used.
+    if (this.config.method === "GET" || this.config.method === "HEAD") {
+      return new ResponseParserAndValidatorBuilder<
+        OpenApiResponseDataType<Op>,
+        OpenApiResponseExceptionDataType<Op>,
+        OpenApiResponseStatusDataTypes<Op>
+      >(
+        this.config as ExpectedFetchConfig_for_ResponseParserAndValidatorBuilder
+      );
+    }
+
+    return new RequestBodyBuilder<
+      OpenApiRequestBodyType<Op>,
+      OpenApiResponseDataType<Op>,
+      OpenApiResponseExceptionDataType<Op>,
+      OpenApiResponseStatusDataTypes<Op>
+    >(this.config as ExpectedFetchConfig_for_RequestBodyBuilder);
+  }
+
   /**
    * Set the API path.
+   *
+   * The path can be a path template with path params, which are path segments
+   * that start with `:` or OpenAPI style `{name}` placeholders, in which case
+   * the path params object is required and its type is inferred from the path
+   * template. Every path param value will be URL encoded before being used in
+   * the path.
+   *
+   * If the base URL has an OpenAPI `paths` type, only paths with an operation
+   * for the HTTP method and without any required query params can be used.
+   *
+   * @example
+   * ```typescript
+   * sf.GET()
+   *   .useSavedBaseUrl("v1")
+   *   .path("/users/:userId/posts/:postId", { userId, postId });
+   * ```
    */
-  path(path: string) {
-    return this.pathWithQueryParams(path, undefined);
+  path<
+    const PathTemplate extends OpenApiPathTemplates<Paths, HTTPMethodUsed, true>
+  >(
+    path: PathTemplate,
+    ...pathParams: Paths extends undefined
+      ? PathParamsArgs<PathTemplate>
+      : OpenApiPathParamsArgs<
+          OpenApiOperation<Paths, PathTemplate, HTTPMethodUsed>
+        >
+  ) {
+    return this.#setPathAndQueryParams<
+      OpenApiOperation<Paths, PathTemplate, HTTPMethodUsed>
+    >(
+      path,
+      undefined,
+      pathParams[0] as Record<string, string | number | boolean> | undefined
+    ) as ChainedBuilder<
+      HTTPMethodUsed,
+      OpenApiOperation<Paths, PathTemplate, HTTPMethodUsed>
+    >;
   }
 
   /**
@@ -32,41 +135,52 @@ export class PathAndQueryParamsBuilder<
    * query params set via the URL Path string directly, and query params set
    * here will appear **after** the existing query params.
    *
-   * Any query param object property that is undefined will also be deleted.
+   * Query param values can be strings, numbers, booleans, `Date`s, arrays and
+   * nested objects, which are serialized according to the base URL's
+   * `querySerialization` options. Any query param object property that is
+   * undefined will be left out.
+   *
+   * Just like `path`, the path can be a path template with path params, whose
+   * values are passed in as the third argument.
+   *
+   * If the base URL has an OpenAPI `paths` type, the query params type is
+   * inferred from the OpenAPI operation instead of `QueryParamsType`.
+   *
+   * Since TypeScript does not infer the remaining type arguments once any type
+   * argument is passed in, pass the path template in as the second type
+   * argument to use path params together with an explicit query params type,
+   * e.g. `pathWithQueryParams<UserQuery, "/users/:id">("/users/:id", query, { id })`.
    */
   pathWithQueryParams<
-    QueryParams extends Record<string, string | undefined> = Record<
-      string,
-      string | undefined
-    >,
-    const ReturnedBuilder extends HTTPMethodUsed extends "GET" | "HEAD"
-      ? ResponseParserAndValidatorBuilder
-      : RequestBodyBuilder = HTTPMethodUsed extends "GET" | "HEAD"
-      ? ResponseParserAndValidatorBuilder
-      : RequestBodyBuilder
-  >(path: string, queryParams?: QueryParams): ReturnedBuilder {
-    this.config.path = path;
-
-    if (queryParams !== undefined) {
-      // Remove all undefined values so that the default type can accept optional
-      // values without having undefined be in the final generated query params.
-      Object.keys(queryParams).forEach(
-        (key) => queryParams[key] === undefined && delete queryParams[key]
-      );
-
-      // Type cast needed here since TSC cannot infer the removal of undefined
-      // values from the Record type.
-      this.config.queryParams = queryParams as Record<string, string>;
-    }
-
-    return new (this.config.method === "GET" || this.config.method === "HEAD"
-      ? ResponseParserAndValidatorBuilder
-      : RequestBodyBuilder)(
-      // Type can be a union of both so that it will work regardless of the
-      // actual Builder class being chained, but it is fine since the only thing
-      // different between them is `body` which can already be `any` type.
-      this.config as ExpectedFetchConfig_for_ResponseParserAndValidatorBuilder &
-        ExpectedFetchConfig_for_RequestBodyBuilder
-    ) as ReturnedBuilder;
+    QueryParamsType extends QueryParams = QueryParams,
+    const PathTemplate extends OpenApiPathTemplates<
+      Paths,
+      HTTPMethodUsed
+    > = OpenApiPathTemplates<Paths, HTTPMethodUsed>
+  >(
+    path: PathTemplate,
+    ...queryAndPathParams: Paths extends undefined
+      ? PathParamsArgs<PathTemplate> extends []
+        ? [queryParams?: QueryParamsType]
+        : [
+            queryParams: QueryParamsType | undefined,
+            ...PathParamsArgs<PathTemplate>
+          ]
+      : OpenApiQueryAndPathParamsArgs<
+          OpenApiOperation<Paths, PathTemplate, HTTPMethodUsed>
+        >
+  ) {
+    return this.#setPathAndQueryParams<
+      OpenApiOperation<Paths, PathTemplate, HTTPMethodUsed>
+    >(
+      path,
+      queryAndPathParams[0] as QueryParams | undefined,
+      queryAndPathParams[1] as
+        | Record<string, string | number | boolean>
+        | undefined
+    ) as ChainedBuilder<
+      HTTPMethodUsed,
+      OpenApiOperation<Paths, PathTemplate, HTTPMethodUsed>
+    >;
   }
 }
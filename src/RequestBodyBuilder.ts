@@ -2,14 +2,28 @@ import type {
   ExpectedFetchConfig_for_RequestBodyBuilder,
   ExpectedFetchConfig_for_ResponseParserAndValidatorBuilder,
 } from "./fetch-config";
-import type { JsonTypeAlias } from "./types";
+import type {
+  JsonTypeAlias,
+  MultipartFile,
+  QueryParams,
+  QuerySerializationOptions,
+} from "./types";
 
 import { ResponseParserAndValidatorBuilder } from "./ResponseParserAndValidatorBuilder";
+import { flattenQueryParams } from "./utils/flattenQueryParams";
 
 /**
  * Builder pattern class for users to set request body.
+ *
+ * The `Inferred...` type parameters are inferred from the base URL's OpenAPI
+ * `paths` type if there is one, and are `any` otherwise.
  */
-export class RequestBodyBuilder {
+export class RequestBodyBuilder<
+  InferredRequestBodyType = any,
+  InferredResponseDataType = any,
+  InferredResponseExceptionDataType = any,
+  InferredResponseStatusDataTypes = undefined
+> {
   constructor(
     private readonly config: ExpectedFetchConfig_for_RequestBodyBuilder
   ) {}
@@ -80,9 +94,11 @@ export class RequestBodyBuilder {
   ) {
     this.config.body = body;
     this.config.optionalContentType = optionalContentType;
-    return new ResponseParserAndValidatorBuilder(
-      this.config as ExpectedFetchConfig_for_ResponseParserAndValidatorBuilder
-    );
+    return new ResponseParserAndValidatorBuilder<
+      InferredResponseDataType,
+      InferredResponseExceptionDataType,
+      InferredResponseStatusDataTypes
+    >(this.config as ExpectedFetchConfig_for_ResponseParserAndValidatorBuilder);
   }
 
   /**
@@ -120,6 +136,9 @@ export class RequestBodyBuilder {
    * set, you know that the value passed in for the `body` parameter cannot be
    * any other type.
    *
+   * If the base URL has an OpenAPI `paths` type, the data type is the JSON
+   * request body type of the OpenAPI operation instead.
+   *
    * @returns Returns the current instance to let you chain method calls
    */
   setRequestBodyWithJsonData<JsonRequestBodyType = JsonTypeAlias>(
@@ -127,7 +146,9 @@ export class RequestBodyBuilder {
      * Any data type that is of 'application/json' type and can be stringified
      * by `JSON.stringify`.
      */
-    data: JsonRequestBodyType
+    data: unknown extends InferredRequestBodyType
+      ? JsonRequestBodyType
+      : InferredRequestBodyType
   ) {
     // Content-type must be set manually even though `fetch` can guess most
     // content-type, because once `data` is stringified, the data is string type
@@ -135,6 +156,109 @@ export class RequestBodyBuilder {
     return this.setRequestBody(JSON.stringify(data), "application/json");
   }
 
+  /**
+   * This method builds a `URLSearchParams` request body from the form fields,
+   * and sets the content-type to 'application/x-www-form-urlencoded', which is
+   * used by things like HTML form posts and OAuth token endpoints.
+   *
+   * Form field values can be strings, numbers, booleans, `Date`s, arrays and
+   * nested objects, which are flattened into their own keys the same way as
+   * query params, using the base URL's `querySerialization` options unless
+   * `serializationOptions` is passed in. Any form field that is undefined will
+   * be left out.
+   *
+   * ### Using generics for TS Type Safety
+   * ```typescript
+   * .setRequestBodyWithFormUrlEncoded<TokenRequest>({
+   *   grant_type: "client_credentials",
+   *   scope: ["read", "write"],
+   * })
+   * ```
+   *
+   * @returns Returns the current instance to let you chain method calls
+   */
+  setRequestBodyWithFormUrlEncoded<
+    FormFieldsType extends QueryParams = QueryParams
+  >(
+    fields: FormFieldsType,
+    serializationOptions: QuerySerializationOptions | undefined = this.config
+      .querySerialization
+  ) {
+    const body = new URLSearchParams();
+    for (const [key, value] of flattenQueryParams(
+      fields,
+      serializationOptions
+    )) {
+      body.append(key, Array.isArray(value) ? value.join(",") : value ?? "");
+    }
+
+    return this.setRequestBody(
+      body,
+      "application/x-www-form-urlencoded;charset=UTF-8"
+    );
+  }
+
+  /**
+   * This method builds a `FormData` request body from the form fields and
+   * files, for services that expect 'multipart/form-data' request bodies like
+   * file uploads.
+   *
+   * Form fields are flattened the same way as `setRequestBodyWithFormUrlEncoded`,
+   * and files can be `Blob`s, `File`s or `Blob`s with a filename, where arrays
+   * of files are appended under the same key.
+   *
+   * The content-type is never set by this method, because `fetch` needs to set
+   * it together with the generated multipart boundary. Any 'Content-Type' header
+   * without a boundary, e.g. from default headers, is also removed for API calls
+   * with `FormData` request bodies for the same reason.
+   *
+   * @example
+   * ```typescript
+   * .setRequestBodyWithMultipart({
+   *   fields: { title: "Report", tags: ["q1", "finance"] },
+   *   files: { attachment: { data: blob, filename: "report.pdf" } },
+   * })
+   * ```
+   *
+   * @returns Returns the current instance to let you chain method calls
+   */
+  setRequestBodyWithMultipart<FormFieldsType extends QueryParams = QueryParams>(
+    {
+      fields,
+      files,
+    }: {
+      fields?: FormFieldsType;
+      files?: Record<string, MultipartFile | ReadonlyArray<MultipartFile>>;
+    },
+    serializationOptions: QuerySerializationOptions | undefined = this.config
+      .querySerialization
+  ) {
+    const body = new FormData();
+
+    if (fields !== undefined) {
+      for (const [key, value] of flattenQueryParams(
+        fields,
+        serializationOptions
+      )) {
+        body.append(key, Array.isArray(value) ? value.join(",") : value ?? "");
+      }
+    }
+
+    for (const [key, fileOrFiles] of Object.entries(files ?? {})) {
+      for (const file of Array.isArray(fileOrFiles)
+        ? (fileOrFiles as ReadonlyArray<MultipartFile>)
+        : [fileOrFiles as MultipartFile]) {
+        if (file instanceof Blob) {
+          body.append(key, file);
+        } else {
+          body.append(key, file.data, file.filename);
+        }
+      }
+    }
+
+    return this.setRequestBody(body);
+  }
+
   /**
    * If API request has no request body. Only applicable for HTTP Methods other
    * than HEAD/GET since these 2 methods do not support request body by default.
@@ -2,15 +2,25 @@ import type {
   ExpectedFetchConfig_for_ResponseExceptionParserAndValidatorBuilder,
   ExpectedFetchConfig_for_OtherFetchConfigBuilder,
 } from "./fetch-config";
-import type { Validator, ResponseParser } from "./types";
+import type { IsSameType, Validator, ResponseParser } from "./types";
 
 import { OtherFetchConfigBuilder } from "./OtherFetchConfigBuilder";
 
 /**
  * Builder pattern class for users to set response parser and response's
  * optional validator.
+ *
+ * `InferredResponseExceptionDataType` is inferred from the base URL's OpenAPI
+ * `paths` type if there is one, and is `any` otherwise.
+ * `ResponseStatusDataTypes` is the OpenAPI operation's map of status codes to
+ * their response data types if the response data type is inferred from it, and
+ * is `undefined` otherwise.
  */
-export class ResponseExceptionParserAndValidatorBuilder<ResponseDataType> {
+export class ResponseExceptionParserAndValidatorBuilder<
+  ResponseDataType,
+  InferredResponseExceptionDataType = any,
+  ResponseStatusDataTypes = undefined
+> {
   /**
    * Low level constructor API that should not be used by library users.
    */
@@ -18,7 +28,7 @@ export class ResponseExceptionParserAndValidatorBuilder<ResponseDataType> {
     private readonly config: ExpectedFetchConfig_for_ResponseExceptionParserAndValidatorBuilder
   ) {}
 
-  #CreateFetch<ResponseExceptionDataType>(
+  #CreateFetch<ResponseExceptionDataType, StatusDataTypes = undefined>(
     responseExceptionParser: ResponseParser<ResponseExceptionDataType>,
     responseExceptionValidator?: Validator<ResponseExceptionDataType>
   ) {
@@ -26,7 +36,8 @@ export class ResponseExceptionParserAndValidatorBuilder<ResponseDataType> {
     this.config.responseExceptionValidator = responseExceptionValidator;
     return new OtherFetchConfigBuilder<
       ResponseDataType,
-      ResponseExceptionDataType
+      ResponseExceptionDataType,
+      StatusDataTypes
     >(this.config as ExpectedFetchConfig_for_OtherFetchConfigBuilder);
   }
 
@@ -89,14 +100,22 @@ export class ResponseExceptionParserAndValidatorBuilder<ResponseDataType> {
    *
    * You can optionally set a validator to validate that the response result is
    * correct at runtime.
+   *
+   * If the base URL has an OpenAPI `paths` type, `JsonResponse` defaults to the
+   * union of the JSON response types of the OpenAPI operation's non `2xx`
+   * responses, and the `ApiResponse` can be narrowed with its `status` to get
+   * the JSON response type of that status code, unless either `JsonResponse`
+   * or the response data type is overridden with a different type.
    */
-  parseResponseExceptionAsJson<JsonResponse = any>(
-    responseValidator?: Validator<JsonResponse>
-  ) {
-    return this.#CreateFetch<JsonResponse>(
-      (res) => res.json(),
-      responseValidator
-    );
+  parseResponseExceptionAsJson<
+    JsonResponse = InferredResponseExceptionDataType
+  >(responseValidator?: Validator<JsonResponse>) {
+    return this.#CreateFetch<
+      JsonResponse,
+      IsSameType<JsonResponse, InferredResponseExceptionDataType> extends true
+        ? ResponseStatusDataTypes
+        : undefined
+    >((res) => res.json(), responseValidator);
   }
 
   /**
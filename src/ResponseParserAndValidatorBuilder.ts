@@ -2,15 +2,33 @@ import type {
   ExpectedFetchConfig_for_ResponseParserAndValidatorBuilder,
   ExpectedFetchConfig_for_ResponseExceptionParserAndValidatorBuilder,
 } from "./fetch-config";
-import type { Validator, ResponseParser } from "./types";
+import type {
+  EventStreamOptions,
+  IsSameType,
+  ResponseParser,
+  ServerSentEvent,
+  Validator,
+} from "./types";
 
 import { ResponseExceptionParserAndValidatorBuilder } from "./ResponseExceptionParserAndValidatorBuilder";
+import { readEventStream } from "./utils/readEventStream";
+import { readNdjson } from "./utils/readNdjson";
+import { readStreamChunks } from "./utils/readStreamChunks";
+import { readTextLines } from "./utils/readTextLines";
 
 /**
  * Builder pattern class for users to set response parser and response's
  * optional validator.
+ *
+ * The `Inferred...` type parameters are inferred from the base URL's OpenAPI
+ * `paths` type if there is one, and are `any` otherwise, except for
+ * `InferredResponseStatusDataTypes` which is `undefined` otherwise.
  */
-export class ResponseParserAndValidatorBuilder {
+export class ResponseParserAndValidatorBuilder<
+  InferredResponseDataType = any,
+  InferredResponseExceptionDataType = any,
+  InferredResponseStatusDataTypes = undefined
+> {
   /**
    * Low level constructor API that should not be used by library users.
    */
@@ -18,13 +36,20 @@ export class ResponseParserAndValidatorBuilder {
     private readonly config: ExpectedFetchConfig_for_ResponseParserAndValidatorBuilder
   ) {}
 
-  #ResponseExceptionParserAndValidatorBuilder<ResponseDataType>(
+  #ResponseExceptionParserAndValidatorBuilder<
+    ResponseDataType,
+    ResponseStatusDataTypes = undefined
+  >(
     responseParser: ResponseParser<ResponseDataType>,
     responseValidator?: Validator<ResponseDataType>
   ) {
     this.config.responseParser = responseParser;
     this.config.responseValidator = responseValidator;
-    return new ResponseExceptionParserAndValidatorBuilder<ResponseDataType>(
+    return new ResponseExceptionParserAndValidatorBuilder<
+      ResponseDataType,
+      InferredResponseExceptionDataType,
+      ResponseStatusDataTypes
+    >(
       this
         .config as ExpectedFetchConfig_for_ResponseExceptionParserAndValidatorBuilder
     );
@@ -90,13 +115,102 @@ export class ResponseParserAndValidatorBuilder {
    *
    * You can optionally set a validator to validate that the response result is
    * correct at runtime.
+   *
+   * If the base URL has an OpenAPI `paths` type, `JsonResponse` defaults to the
+   * union of the JSON response types of the OpenAPI operation's `2xx`
+   * responses, and the `ApiResponse` can be narrowed with its `status` to get
+   * the JSON response type of that status code, unless `JsonResponse` is
+   * overridden with a different type.
    */
-  parseResponseAsJson<JsonResponse = any>(
+  parseResponseAsJson<JsonResponse = InferredResponseDataType>(
     responseValidator?: Validator<JsonResponse>
   ) {
-    return this.#ResponseExceptionParserAndValidatorBuilder<JsonResponse>(
-      (res) => res.json(),
-      responseValidator
+    return this.#ResponseExceptionParserAndValidatorBuilder<
+      JsonResponse,
+      IsSameType<JsonResponse, InferredResponseDataType> extends true
+        ? InferredResponseStatusDataTypes
+        : undefined
+    >((res) => res.json(), responseValidator);
+  }
+
+  /**
+   * Parse `fetch` response as an async iterable of the raw `Uint8Array` chunks
+   * of the response body, without buffering the whole response body.
+   *
+   * Streaming responses are never deduplicated or cached, and the `bodyRead`
+   * timeout only applies to getting the async iterable, not to iterating it.
+   * The response body is cancelled if the iteration is stopped early.
+   */
+  parseResponseAsStream() {
+    this.config.isStreamingResponse = true;
+    return this.#ResponseExceptionParserAndValidatorBuilder<
+      AsyncIterable<Uint8Array>
+    >(async (res) => readStreamChunks(res.body));
+  }
+
+  /**
+   * Parse `fetch` response as an async iterable of the lines of the response
+   * body decoded as UTF-8 text, without buffering the whole response body.
+   *
+   * Same as `parseResponseAsStream`, streaming responses are never deduplicated
+   * or cached.
+   */
+  parseResponseAsTextLines() {
+    this.config.isStreamingResponse = true;
+    return this.#ResponseExceptionParserAndValidatorBuilder<
+      AsyncIterable<string>
+    >(async (res) => readTextLines(res.body));
+  }
+
+  /**
+   * Parse `fetch` response as newline delimited JSON (NDJSON), as an async
+   * iterable of the parsed JSON value of every non blank line, without
+   * buffering the whole response body.
+   *
+   * You can optionally set a validator to validate every item at runtime, where
+   * a `ValidationException` with the item's `lineNumber` is thrown during the
+   * iteration if the validator returns false.
+   *
+   * Same as `parseResponseAsStream`, streaming responses are never deduplicated
+   * or cached.
+   */
+  parseResponseAsNdjson<T = any>(itemValidator?: Validator<T>) {
+    this.config.isStreamingResponse = true;
+    return this.#ResponseExceptionParserAndValidatorBuilder<AsyncIterable<T>>(
+      async (res) => readNdjson(res.body, itemValidator)
+    );
+  }
+
+  /**
+   * Parse `fetch` response as a `text/event-stream`, as an async iterable of
+   * server-sent events, with the `Accept: text/event-stream` header set for the
+   * API call.
+   *
+   * Unlike `EventSource`, this works with any HTTP method, request body and
+   * headers, including async header functions which are called again for every
+   * reconnection. Reconnections are made with the `Last-Event-ID` header after
+   * the server's `retry` hint once the response body ends or the connection is
+   * dropped, until the API call is cancelled with `useAbortSignal`, where an
+   * `AbortException` is thrown during the iteration. See `EventStreamOptions`
+   * for all the available options.
+   *
+   * You can optionally set a validator to validate every event's data at
+   * runtime, where a `ValidationException` is thrown during the iteration if
+   * the validator returns false.
+   *
+   * Same as `parseResponseAsStream`, streaming responses are never deduplicated
+   * or cached.
+   */
+  parseResponseAsEventStream<T = any>(
+    dataValidator?: Validator<T>,
+    options: EventStreamOptions = {}
+  ) {
+    this.config.isStreamingResponse = true;
+    this.config.headers.push({ Accept: "text/event-stream" });
+    return this.#ResponseExceptionParserAndValidatorBuilder<
+      AsyncIterable<ServerSentEvent<T>>
+    >(async (res, context) =>
+      readEventStream(res, context, dataValidator, options)
     );
   }
 
@@ -1,5 +1,20 @@
-import type { BaseUrlConfig, HTTPMethod } from "./types";
+import type { EndpointFunctions } from "./endpoints/EndpointFunction";
+import type {
+  BaseUrlConfig,
+  CircuitBreakerState,
+  EndpointContract,
+  FetchFunction,
+  HTTPMethod,
+  Middleware,
+  ResponseCacheStorage,
+  TelemetryHandler,
+  TraceContextOptions,
+} from "./types";
 
+import { LruCacheStorage } from "./cache/LruCacheStorage";
+import { CircuitBreaker } from "./circuit-breaker/CircuitBreaker";
+import { createEndpointFunctions } from "./endpoints/createEndpointFunctions";
+import { RateLimiter } from "./rate-limit/RateLimiter";
 import { UrlBuilder } from "./UrlBuilder";
 
 /**
@@ -10,17 +25,183 @@ import { UrlBuilder } from "./UrlBuilder";
 export class SimplerFetch<
   const SimplerFetchConfig extends {
     baseUrlConfigs?: Record<string, BaseUrlConfig>;
+
+    /**
+     * Middlewares that will be used for every API call made with this
+     * `SimplerFetch` instance, regardless of the base URL used.
+     */
+    middlewares?: Array<Middleware>;
+
+    /**
+     * Telemetry handlers that are called with the lifecycle events of every API
+     * call made with this `SimplerFetch` instance, e.g. to record latency
+     * metrics and per endpoint success rates, or to create tracing spans with
+     * `createOpenTelemetryHandler`.
+     */
+    telemetryHandlers?: Array<TelemetryHandler>;
+
+    /**
+     * Enable trace context propagation, which sends the W3C `traceparent` and
+     * `tracestate` headers and a request ID header with every API call made
+     * with this `SimplerFetch` instance. The trace context sent is available
+     * on `ApiResponse.traceContext` and on the library's exceptions, so that
+     * failed API calls can be matched to the API server's traces and logs.
+     */
+    traceContext?: TraceContextOptions;
+
+    /**
+     * Custom `fetch` function to use for every API call made with this
+     * `SimplerFetch` instance instead of the global `fetch` function, e.g. an
+     * instrumented `fetch` function for testing.
+     *
+     * If this is not set, the global `fetch` function is only looked up when
+     * the instance is used, so it can be polyfilled after the library loads.
+     */
+    fetch?: FetchFunction;
+
+    /**
+     * Enable the response cache for `GET` and `HEAD` API calls made with this
+     * `SimplerFetch` instance, which respects the response's `Cache-Control`
+     * header and revalidates stale responses with `If-None-Match` and
+     * `If-Modified-Since` headers.
+     *
+     * Cached responses are stored in memory with `LruCacheStorage` by default,
+     * which keeps up to `maxEntries` responses (defaults to 100). Use `storage`
+     * to store them elsewhere instead.
+     */
+    cache?: {
+      storage?: ResponseCacheStorage;
+      maxEntries?: number;
+    };
+
+    /**
+     * Maximum number of API calls made with this `SimplerFetch` instance that
+     * are waiting for a response at the same time, regardless of the base URL
+     * used. Any other API calls are queued by their priority set with the
+     * `priority` method, so that user facing API calls can jump ahead of
+     * background API calls like analytics and prefetches.
+     */
+    maxConcurrency?: number;
+
+    /**
+     * Endpoint contracts to generate fully typed endpoint functions for, which
+     * are available on `SimplerFetch.endpoints` with the same names.
+     */
+    endpoints?: Record<string, EndpointContract>;
   },
   const BaseUrlIdentifiers extends "baseUrlConfigs" extends keyof SimplerFetchConfig
     ? keyof SimplerFetchConfig["baseUrlConfigs"]
     : never
 > {
-  constructor(public readonly config: SimplerFetchConfig) {}
+  constructor(public readonly config: SimplerFetchConfig) {
+    this.#cacheStorage =
+      config.cache === undefined
+        ? undefined
+        : config.cache.storage ?? new LruCacheStorage(config.cache.maxEntries);
+
+    this.#scheduler =
+      config.maxConcurrency === undefined
+        ? undefined
+        : new RateLimiter({
+            maxConcurrency: config.maxConcurrency,
+            adaptToResponseHeaders: false,
+          });
+
+    for (const [identifier, baseUrlConfig] of Object.entries(
+      config.baseUrlConfigs ?? {}
+    )) {
+      if (baseUrlConfig.circuitBreaker !== undefined) {
+        this.#circuitBreakers.set(
+          identifier,
+          new CircuitBreaker(identifier, baseUrlConfig.circuitBreaker)
+        );
+      }
+
+      if (baseUrlConfig.rateLimit !== undefined) {
+        this.#rateLimiters.set(
+          identifier,
+          new RateLimiter(baseUrlConfig.rateLimit)
+        );
+      }
+    }
+
+    this.endpoints = createEndpointFunctions(
+      config.endpoints ?? {},
+      config.baseUrlConfigs,
+      (method) =>
+        this.#ChainToUrlBuilder(method) as UrlBuilder<string, HTTPMethod>
+    ) as EndpointFunctions<SimplerFetchConfig["endpoints"]>;
+  }
+
+  /**
+   * Fully typed endpoint functions generated from the `endpoints` option, that
+   * make API calls using their endpoint contract and return the
+   * `OtherFetchConfigBuilder` for any further configuration of the API call.
+   *
+   * @example
+   * ```typescript
+   * const [err, res] = await sf.endpoints
+   *   .getUser({ params: { userId: 1 } })
+   *   .finishConfig()
+   *   .runSafely();
+   * ```
+   */
+  readonly endpoints: EndpointFunctions<SimplerFetchConfig["endpoints"]>;
+
+  /**
+   * Storage for the response cache, which is only set if the response cache is
+   * enabled with the `cache` option.
+   */
+  #cacheStorage: ResponseCacheStorage | undefined;
+
+  /**
+   * In-flight API calls shared by all the API calls made with this instance
+   * for request deduplication.
+   */
+  #inflightRequests = new Map<string, Promise<unknown>>();
+
+  /**
+   * Circuit breakers of the base URLs that have it enabled, keyed by the base
+   * URL identifier.
+   */
+  #circuitBreakers = new Map<string, CircuitBreaker>();
+
+  /**
+   * Rate limiters of the base URLs that have it enabled, keyed by the base URL
+   * identifier.
+   */
+  #rateLimiters = new Map<string, RateLimiter>();
+
+  /**
+   * Request scheduler of this instance, which is only set if the concurrency
+   * is limited with the `maxConcurrency` option.
+   */
+  #scheduler: RateLimiter | undefined;
+
+  /**
+   * Get the current state of a base URL's circuit breaker, which is undefined
+   * if the base URL does not have the circuit breaker enabled.
+   */
+  getCircuitBreakerState = (
+    identifier: BaseUrlIdentifiers
+  ): CircuitBreakerState | undefined =>
+    this.#circuitBreakers.get(String(identifier))?.getState();
+
+  /**
+   * Close a base URL's circuit breaker and forget all its failures, e.g. once
+   * the base URL is known to have recovered.
+   */
+  resetCircuitBreaker = (identifier: BaseUrlIdentifiers) =>
+    this.#circuitBreakers.get(String(identifier))?.reset();
 
   #ChainToUrlBuilder = <const HTTPMethodUsed extends HTTPMethod>(
     method: HTTPMethodUsed
   ) =>
-    new UrlBuilder<BaseUrlIdentifiers, HTTPMethodUsed>(
+    new UrlBuilder<
+      BaseUrlIdentifiers,
+      HTTPMethodUsed,
+      Exclude<SimplerFetchConfig["baseUrlConfigs"], undefined>
+    >(
       // Create a new object that will be the chainable fetch config object
       // threaded through all the Builder class instances, and fill it in with
       // any required default values too.
@@ -28,6 +209,26 @@ export class SimplerFetch<
         method,
         options: {},
         headers: [],
+
+        // Copy the array so that base URL specific middlewares can be added
+        // without modifying the instance's middlewares.
+        middlewares: [...(this.config.middlewares ?? [])],
+
+        telemetryHandlers: this.config.telemetryHandlers ?? [],
+
+        traceContext: this.config.traceContext,
+
+        fetch: this.config.fetch,
+
+        inflightRequests: this.#inflightRequests,
+
+        circuitBreakers: this.#circuitBreakers,
+
+        rateLimiters: this.#rateLimiters,
+
+        scheduler: this.#scheduler,
+
+        cacheStorage: this.#cacheStorage,
       },
       this.config.baseUrlConfigs as Exclude<
         SimplerFetchConfig["baseUrlConfigs"],
@@ -3,8 +3,9 @@ import type {
   ExpectedFetchConfig_for_UrlBuilder,
   ExpectedFetchConfig_for_PathAndQueryParamsBuilder,
 } from "./fetch-config";
-import type { HTTPMethod, BaseUrlConfig } from "./types";
+import type { HTTPMethod, BaseUrlConfig, OpenApiPathsOf } from "./types";
 
+import { SimplerFetchError } from "./errors";
 import { PathAndQueryParamsBuilder } from "./PathAndQueryParamsBuilder";
 
 /**
@@ -12,14 +13,18 @@ import { PathAndQueryParamsBuilder } from "./PathAndQueryParamsBuilder";
  */
 export class UrlBuilder<
   const BaseUrlIdentifiers extends string | number | symbol,
-  const HTTPMethodUsed extends HTTPMethod
+  const HTTPMethodUsed extends HTTPMethod,
+  const BaseUrlConfigs extends Record<
+    BaseUrlIdentifiers,
+    BaseUrlConfig
+  > = Record<BaseUrlIdentifiers, BaseUrlConfig>
 > {
   constructor(
     private readonly config: ExpectedFetchConfig_for_UrlBuilder,
-    private readonly baseUrlConfigs: Record<BaseUrlIdentifiers, BaseUrlConfig>
+    private readonly baseUrlConfigs: BaseUrlConfigs
   ) {}
 
-  #ChainToPathAndQueryParamsBuilder(
+  #ChainToPathAndQueryParamsBuilder<Paths = undefined>(
     url: Exclude<ChainableFetchConfig["url"], undefined>,
     defaultOptions: Exclude<
       ChainableFetchConfig["defaultOptions"],
@@ -30,23 +35,71 @@ export class UrlBuilder<
       undefined
     > = []
   ) {
+    // Check if fetch exists on first use instead of on library load, so that
+    // the global `fetch` function can be lazily polyfilled, and so that it is
+    // not required at all if a custom `fetch` function is used.
+    if (this.config.fetch === undefined && typeof fetch !== "function") {
+      throw new SimplerFetchError(
+        "[simpler-fetch] 'fetch' is not defined in global scope please polyfill it first or use a custom 'fetch' function!"
+      );
+    }
+
     this.config.url = url;
     this.config.defaultOptions = defaultOptions;
     this.config.defaultHeaders = defaultHeaders;
-    return new PathAndQueryParamsBuilder<HTTPMethodUsed>(
+    return new PathAndQueryParamsBuilder<HTTPMethodUsed, Paths>(
       this.config as ExpectedFetchConfig_for_PathAndQueryParamsBuilder
     );
   }
 
   /**
    * Use a base URL that is saved during `SimplerFetch` instance creation.
+   *
+   * If the base URL has an OpenAPI `paths` type set with `openApiPaths`, the
+   * rest of the API call is typed using it.
    */
-  useSavedBaseUrl = (identifier: BaseUrlIdentifiers) =>
-    this.#ChainToPathAndQueryParamsBuilder(
+  useSavedBaseUrl = <const Identifier extends BaseUrlIdentifiers>(
+    identifier: Identifier
+  ) => {
+    this.config.baseUrlIdentifier = String(identifier);
+
+    // Base URL specific middlewares are nested within the instance middlewares
+    this.config.middlewares.push(
+      ...(this.baseUrlConfigs[identifier].middlewares ?? [])
+    );
+
+    this.config.retryPolicy =
+      this.baseUrlConfigs[identifier].defaultRetryPolicy;
+
+    // Only applies to `GET` and `HEAD` since other HTTP methods have side
+    // effects, see `dedupe` method.
+    this.config.dedupe =
+      this.baseUrlConfigs[identifier].dedupe &&
+      (this.config.method === "GET" || this.config.method === "HEAD");
+
+    this.config.querySerialization =
+      this.baseUrlConfigs[identifier].querySerialization;
+
+    // Base URL specific `fetch` function takes precedence over the instance's
+    this.config.fetch =
+      this.baseUrlConfigs[identifier].fetch ?? this.config.fetch;
+
+    this.config.authProvider = this.baseUrlConfigs[identifier].authProvider;
+
+    this.config.circuitBreaker = this.config.circuitBreakers.get(
+      String(identifier)
+    );
+
+    this.config.rateLimiter = this.config.rateLimiters.get(String(identifier));
+
+    return this.#ChainToPathAndQueryParamsBuilder<
+      OpenApiPathsOf<BaseUrlConfigs[Identifier]>
+    >(
       this.baseUrlConfigs[identifier].url,
       this.baseUrlConfigs[identifier].defaultOptions,
       this.baseUrlConfigs[identifier].defaultHeaders
     );
+  };
 
   /**
    * Use given url string as base URL to make an API call.
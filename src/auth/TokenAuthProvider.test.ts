@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from "vitest";
+
+import type { AuthToken } from "../types";
+
+import { HeaderException } from "../exceptions";
+import { SimplerFetch } from "../SimplerFetch";
+import { createMockTransport } from "../testing";
+import { TokenAuthProvider } from "./TokenAuthProvider";
+
+/**
+ * Set up a `SimplerFetch` instance whose base URL uses a `TokenAuthProvider`
+ * with the given `fetchToken` function.
+ */
+function setup(
+  fetchToken: (currentToken: AuthToken | undefined) => Promise<AuthToken>
+) {
+  const mock = createMockTransport<"v1">();
+  const authProvider = new TokenAuthProvider({ fetchToken });
+  const sf = new SimplerFetch({
+    baseUrlConfigs: { v1: { url: "https://example.com/v1", authProvider } },
+    fetch: mock.fetch,
+  });
+
+  const getUsers = () =>
+    sf
+      .GET()
+      .useSavedBaseUrl("v1")
+      .path("/users")
+      .parseResponseAsJson()
+      .parseResponseExceptionAsJson()
+      .finishConfig()
+      .runAndThrowOnException();
+
+  return { mock, authProvider, getUsers };
+}
+
+/**
+ * Create a `fetchToken` function that returns the tokens `token1`, `token2`
+ * and so on.
+ */
+const createFetchToken = () => {
+  let tokenCount = 0;
+  return vi.fn(async () => ({ accessToken: `token${++tokenCount}` }));
+};
+
+describe("TokenAuthProvider", () => {
+  it("fetches the token once for concurrent API calls", async () => {
+    const fetchToken = createFetchToken();
+    const { authProvider } = setup(fetchToken);
+
+    const headers = await Promise.all([
+      authProvider.getAuthHeaders(),
+      authProvider.getAuthHeaders(),
+    ]);
+
+    expect(fetchToken).toHaveBeenCalledOnce();
+    expect(headers).toEqual([
+      { Authorization: "Bearer token1" },
+      { Authorization: "Bearer token1" },
+    ]);
+  });
+
+  it("refreshes the token before it expires", async () => {
+    let tokenCount = 0;
+    const fetchToken = vi.fn(async () => ({
+      accessToken: `token${++tokenCount}`,
+      expiresAt: Date.now() + 10000,
+    }));
+    const { authProvider } = setup(fetchToken);
+
+    // Expires within the default 30 seconds so it is always refreshed
+    await authProvider.getAuthHeaders();
+    expect(await authProvider.getAuthHeaders()).toEqual({
+      Authorization: "Bearer token2",
+    });
+  });
+
+  it("refreshes the token once for concurrent 401 responses", async () => {
+    const fetchToken = createFetchToken();
+    const { mock, getUsers } = setup(fetchToken);
+    mock.on("GET /users", ({ headers }) =>
+      headers["authorization"] === "Bearer token2"
+        ? { json: [] }
+        : { status: 401, json: {} }
+    );
+
+    const responses = await Promise.all([getUsers(), getUsers(), getUsers()]);
+
+    expect(fetchToken).toHaveBeenCalledTimes(2);
+    expect(responses.map(({ status }) => status)).toEqual([200, 200, 200]);
+    expect(responses.map(({ attempts }) => attempts)).toEqual([2, 2, 2]);
+    expect(mock.calls).toHaveLength(6);
+  });
+
+  it("replays the API call once with the new token before giving up", async () => {
+    const fetchToken = createFetchToken();
+    const { mock, getUsers } = setup(fetchToken);
+    mock.on("GET /users", { status: 401, json: {} });
+
+    const response = await getUsers();
+
+    expect(response.status).toBe(401);
+    expect(response.attempts).toBe(2);
+    expect(fetchToken).toHaveBeenCalledTimes(2);
+    expect(mock.calls.map(({ headers }) => headers["authorization"])).toEqual([
+      "Bearer token1",
+      "Bearer token2",
+    ]);
+  });
+
+  it("fails every API call waiting on a refresh that failed", async () => {
+    let rejectRefresh: (error: Error) => void = () => {};
+    const fetchToken = vi
+      .fn<(currentToken: AuthToken | undefined) => Promise<AuthToken>>()
+      .mockResolvedValueOnce({ accessToken: "token1" })
+      .mockReturnValueOnce(
+        new Promise((_, reject) => {
+          rejectRefresh = reject;
+        })
+      );
+    const { mock, getUsers } = setup(fetchToken);
+    mock.on("GET /users", { status: 401, json: {} });
+
+    const results = Promise.allSettled([getUsers(), getUsers(), getUsers()]);
+
+    await vi.waitFor(() => expect(mock.calls).toHaveLength(3));
+    const refreshError = new Error("Refresh token expired");
+    rejectRefresh(refreshError);
+
+    expect(await results).toEqual(
+      Array(3).fill({
+        status: "rejected",
+        reason: expect.objectContaining({ error: refreshError }),
+      })
+    );
+    expect((await results)[0]).toMatchObject({
+      reason: expect.any(HeaderException),
+    });
+    expect(fetchToken).toHaveBeenCalledTimes(2);
+    expect(mock.calls).toHaveLength(3);
+  });
+});
@@ -0,0 +1,127 @@
+import type { AuthProvider, AuthToken } from "../types";
+
+/**
+ * `AuthProvider` for access tokens that expire, which sends the access token
+ * with the `Authorization: Bearer` header by default.
+ *
+ * The token is fetched with `fetchToken` on the first API call, and refreshed
+ * before it expires and whenever an API call using it gets a `401
+ * Unauthorized` response. Refreshes are single-flight, so concurrent API calls
+ * wait on the same refresh instead of each triggering one.
+ *
+ * @example
+ * ```typescript
+ * const authProvider = new TokenAuthProvider({
+ *   fetchToken: async () => {
+ *     const { access_token, expires_in } = await getTokenFromAuthServer();
+ *     return {
+ *       accessToken: access_token,
+ *       expiresAt: Date.now() + expires_in * 1000,
+ *     };
+ *   },
+ * });
+ *
+ * const sf = new SimplerFetch({
+ *   baseUrlConfigs: { v1: { url: "https://example.com/v1", authProvider } },
+ * });
+ * ```
+ */
+export class TokenAuthProvider implements AuthProvider {
+  constructor(
+    private readonly options: {
+      /**
+       * Fetch a new access token, which is called with the current token if
+       * any, e.g. to use its refresh token.
+       */
+      fetchToken: (currentToken: AuthToken | undefined) => Promise<AuthToken>;
+
+      /**
+       * Refresh the token once it is this close to expiring, so that it does
+       * not expire by the time the API call reaches the API server.
+       *
+       * Defaults to 30 seconds.
+       */
+      refreshBeforeExpiryInMilliseconds?: number;
+
+      /**
+       * Generate the auth headers from the token.
+       *
+       * Defaults to the `Authorization: Bearer <accessToken>` header.
+       */
+      toAuthHeaders?: (token: AuthToken) => Record<string, string>;
+    }
+  ) {}
+
+  #token: AuthToken | undefined;
+
+  /**
+   * Auth headers of the current token, kept so that `onUnauthorized` can tell
+   * if the API call used the current token or an older one.
+   */
+  #authHeaders: Record<string, string> | undefined;
+
+  /**
+   * The refresh in progress if any, shared by every caller.
+   */
+  #refresh: Promise<Record<string, string>> | undefined;
+
+  #refreshToken() {
+    this.#refresh ??= this.options
+      .fetchToken(this.#token)
+      .then((token) => {
+        this.#token = token;
+        this.#authHeaders = (
+          this.options.toAuthHeaders ??
+          ((token) => ({ Authorization: `Bearer ${token.accessToken}` }))
+        )(token);
+        return this.#authHeaders;
+      })
+      .finally(() => {
+        this.#refresh = undefined;
+      });
+
+    return this.#refresh;
+  }
+
+  async getAuthHeaders() {
+    if (this.#refresh !== undefined) {
+      return this.#refresh;
+    }
+
+    const expiresAt = this.#token?.expiresAt;
+    const refreshBeforeExpiryInMilliseconds =
+      this.options.refreshBeforeExpiryInMilliseconds ?? 30000;
+
+    if (
+      this.#authHeaders === undefined ||
+      (expiresAt !== undefined &&
+        Date.now() >= expiresAt - refreshBeforeExpiryInMilliseconds)
+    ) {
+      return this.#refreshToken();
+    }
+
+    return this.#authHeaders;
+  }
+
+  async onUnauthorized(requestHeaders: Record<string, string>) {
+    if (this.#refresh !== undefined) {
+      await this.#refresh;
+      return;
+    }
+
+    // Only refresh if the API call used the current token, since the token
+    // has already been refreshed otherwise.
+    const authHeaders = this.#authHeaders ?? {};
+    const isCurrentToken = Object.entries(authHeaders).every(
+      ([name, value]) =>
+        Object.entries(requestHeaders).find(
+          ([requestHeaderName]) =>
+            requestHeaderName.toLowerCase() === name.toLowerCase()
+        )?.[1] === value
+    );
+
+    if (isCurrentToken) {
+      await this.#refreshToken();
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import type { CachedResponse, ResponseCacheStorage } from "../types";
+
+/**
+ * In memory `ResponseCacheStorage` that evicts the least recently used cached
+ * response once it has more than `maxEntries` cached responses.
+ *
+ * This is the default storage used by the response cache.
+ */
+export class LruCacheStorage implements ResponseCacheStorage {
+  constructor(private readonly maxEntries: number = 100) {}
+
+  /**
+   * `Map` keeps insertion order, so the least recently used entry is always the
+   * first entry as entries are re-inserted whenever they are used.
+   */
+  #entries = new Map<string, CachedResponse>();
+
+  get(key: string) {
+    const cachedResponse = this.#entries.get(key);
+
+    if (cachedResponse !== undefined) {
+      this.#entries.delete(key);
+      this.#entries.set(key, cachedResponse);
+    }
+
+    return cachedResponse;
+  }
+
+  set(key: string, cachedResponse: CachedResponse) {
+    this.#entries.delete(key);
+    this.#entries.set(key, cachedResponse);
+
+    if (this.#entries.size > this.maxEntries) {
+      // Type cast is safe since the map is not empty
+      this.#entries.delete(this.#entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string) {
+    this.#entries.delete(key);
+  }
+}
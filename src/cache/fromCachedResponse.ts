@@ -0,0 +1,18 @@
+import type { CachedResponse } from "../types";
+
+/**
+ * Create a new `Response` from a `CachedResponse`, which can be parsed just
+ * like any other `Response`.
+ */
+export const fromCachedResponse = (cachedResponse: CachedResponse) =>
+  new Response(
+    // Responses with these status codes cannot have a body
+    cachedResponse.status === 204 || cachedResponse.status === 205
+      ? null
+      : cachedResponse.body,
+    {
+      status: cachedResponse.status,
+      statusText: cachedResponse.statusText,
+      headers: cachedResponse.headers,
+    }
+  );
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+
+import { getResponseFreshness } from "./getResponseFreshness";
+
+describe("getResponseFreshness", () => {
+  it("uses the max-age directive", () => {
+    expect(
+      getResponseFreshness(new Headers({ "Cache-Control": "max-age=60" }))
+    ).toEqual({
+      maxAgeInMilliseconds: 60000,
+      staleWhileRevalidateInMilliseconds: 0,
+    });
+  });
+
+  it("subtracts the Age header from max-age", () => {
+    expect(
+      getResponseFreshness(
+        new Headers({ "Cache-Control": "max-age=60", Age: "45" })
+      )?.maxAgeInMilliseconds
+    ).toBe(15000);
+  });
+
+  it("does not cache responses older than their max-age that cannot be revalidated", () => {
+    expect(
+      getResponseFreshness(
+        new Headers({ "Cache-Control": "max-age=60", Age: "90" })
+      )
+    ).toBeUndefined();
+  });
+
+  it("keeps responses older than their max-age that can be revalidated as stale", () => {
+    expect(
+      getResponseFreshness(
+        new Headers({ "Cache-Control": "max-age=60", Age: "90", ETag: '"a"' })
+      )?.maxAgeInMilliseconds
+    ).toBe(0);
+  });
+
+  it("uses the Expires header relative to the Date header, minus Age", () => {
+    expect(
+      getResponseFreshness(
+        new Headers({
+          Date: "Mon, 19 Oct 2026 00:00:00 GMT",
+          Expires: "Mon, 19 Oct 2026 00:01:00 GMT",
+          Age: "10",
+        })
+      )?.maxAgeInMilliseconds
+    ).toBe(50000);
+  });
+
+  it("prefers max-age over the Expires header", () => {
+    expect(
+      getResponseFreshness(
+        new Headers({
+          "Cache-Control": "max-age=5",
+          Date: "Mon, 19 Oct 2026 00:00:00 GMT",
+          Expires: "Mon, 19 Oct 2026 00:01:00 GMT",
+        })
+      )?.maxAgeInMilliseconds
+    ).toBe(5000);
+  });
+
+  it("ignores s-maxage since this is a private cache", () => {
+    expect(
+      getResponseFreshness(
+        new Headers({ "Cache-Control": "s-maxage=60, max-age=10" })
+      )?.maxAgeInMilliseconds
+    ).toBe(10000);
+  });
+
+  it("does not cache no-store responses or responses that vary on everything", () => {
+    expect(
+      getResponseFreshness(new Headers({ "Cache-Control": "no-store" }))
+    ).toBeUndefined();
+    expect(
+      getResponseFreshness(
+        new Headers({ "Cache-Control": "max-age=60", Vary: "*" })
+      )
+    ).toBeUndefined();
+  });
+
+  it("treats no-cache responses as never fresh", () => {
+    expect(
+      getResponseFreshness(
+        new Headers({
+          "Cache-Control": "no-cache, max-age=60, stale-while-revalidate=30",
+          ETag: '"a"',
+        })
+      )
+    ).toEqual({
+      maxAgeInMilliseconds: 0,
+      staleWhileRevalidateInMilliseconds: 0,
+    });
+  });
+
+  it("uses the stale-while-revalidate directive unless revalidation is required", () => {
+    expect(
+      getResponseFreshness(
+        new Headers({
+          "Cache-Control": "max-age=60, stale-while-revalidate=30",
+        })
+      )?.staleWhileRevalidateInMilliseconds
+    ).toBe(30000);
+    expect(
+      getResponseFreshness(
+        new Headers({
+          "Cache-Control":
+            "max-age=60, stale-while-revalidate=30, must-revalidate",
+        })
+      )?.staleWhileRevalidateInMilliseconds
+    ).toBe(0);
+  });
+
+  it("ignores invalid values", () => {
+    expect(
+      getResponseFreshness(
+        new Headers({ "Cache-Control": "max-age=abc", Age: "abc", ETag: '"a"' })
+      )?.maxAgeInMilliseconds
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Parse the `Cache-Control` header into a map of lower cased directive names to
+ * their values, where directives without values are mapped to `true`.
+ */
+function parseCacheControl(cacheControl: string | null) {
+  const directives = new Map<string, string | true>();
+
+  for (const directive of (cacheControl ?? "").split(",")) {
+    const [name, value] = directive.split("=");
+    if (name !== undefined && name.trim() !== "") {
+      directives.set(
+        name.trim().toLowerCase(),
+        value?.trim().replace(/^"|"$/g, "") ?? true
+      );
+    }
+  }
+
+  return directives;
+}
+
+/**
+ * Parse a directive value in seconds into milliseconds, returning 0 for
+ * missing or invalid values.
+ */
+function secondsDirectiveToMilliseconds(value: string | true | undefined) {
+  const seconds = Number(value);
+  return typeof value === "string" && !Number.isNaN(seconds)
+    ? Math.max(seconds * 1000, 0)
+    : 0;
+}
+
+/**
+ * Get the freshness lifetime of the response in milliseconds, using the
+ * `max-age` directive, else the `Expires` header.
+ *
+ * The `s-maxage` directive is ignored since it only applies to shared caches,
+ * while this is a private cache.
+ */
+function getFreshnessLifetime(
+  directives: Map<string, string | true>,
+  headers: Headers
+) {
+  // `no-cache` means that the response can be stored but must be revalidated
+  // every time before it is used, i.e. it is never fresh.
+  if (directives.has("no-cache")) {
+    return 0;
+  }
+
+  if (directives.has("max-age")) {
+    return secondsDirectiveToMilliseconds(directives.get("max-age"));
+  }
+
+  const expires = headers.get("Expires");
+  if (expires === null) {
+    return 0;
+  }
+
+  // Use the server's `Date` header if available to avoid clock skew issues
+  const date = headers.get("Date");
+  return Math.max(
+    (Date.parse(expires) || 0) -
+      ((date !== null && Date.parse(date)) || Date.now()),
+    0
+  );
+}
+
+/**
+ * Get how long the response is fresh for and how long it can be used while it
+ * is being revalidated, based on the response headers.
+ *
+ * Returns `undefined` if the response should not be cached at all, either
+ * because the server disallowed it with `no-store` or `Vary: *`, or because
+ * the response has no freshness lifetime and cannot be revalidated either.
+ */
+export function getResponseFreshness(headers: Headers) {
+  const directives = parseCacheControl(headers.get("Cache-Control"));
+
+  if (directives.has("no-store") || headers.get("Vary")?.trim() === "*") {
+    return undefined;
+  }
+
+  // Responses served by a shared cache like a CDN have already been stored for
+  // the number of seconds in its `Age` header, which is subtracted from its
+  // freshness lifetime following RFC 9111 section 4.2.3, so that it is not
+  // treated as fresh for longer than the origin server allows.
+  const maxAgeInMilliseconds = Math.max(
+    getFreshnessLifetime(directives, headers) -
+      secondsDirectiveToMilliseconds(headers.get("Age") ?? undefined),
+    0
+  );
+
+  // Responses that are never fresh are only useful if they can be revalidated
+  const canRevalidate =
+    headers.get("ETag") !== null || headers.get("Last-Modified") !== null;
+  if (maxAgeInMilliseconds === 0 && !canRevalidate) {
+    return undefined;
+  }
+
+  return {
+    maxAgeInMilliseconds,
+    staleWhileRevalidateInMilliseconds:
+      directives.has("no-cache") || directives.has("must-revalidate")
+        ? 0
+        : secondsDirectiveToMilliseconds(
+            directives.get("stale-while-revalidate")
+          ),
+  };
+}
@@ -0,0 +1,63 @@
+import type { CachedResponse } from "../types";
+
+import { getResponseFreshness } from "./getResponseFreshness";
+
+/**
+ * Get the request header values of all the headers named in the `Vary`
+ * response header.
+ */
+function getVaryHeaders(responseHeaders: Headers, requestHeaders: Headers) {
+  const varyHeaders: Record<string, string | null> = {};
+
+  for (const name of (responseHeaders.get("Vary") ?? "").split(",")) {
+    if (name.trim() !== "") {
+      varyHeaders[name.trim().toLowerCase()] = requestHeaders.get(name.trim());
+    }
+  }
+
+  return varyHeaders;
+}
+
+/**
+ * Convert a `Response` and its already read body into a `CachedResponse` that
+ * can be stored.
+ *
+ * Returns `undefined` if the response should not be cached.
+ *
+ * An existing `CachedResponse` can be passed in to refresh it with the headers
+ * of a `304 Not Modified` response, where the cached body is reused.
+ */
+export function toCachedResponse(
+  response: Response,
+  body: ArrayBuffer,
+  requestHeaders: Headers,
+  notModifiedCachedResponse?: CachedResponse
+): CachedResponse | undefined {
+  // Headers from a 304 response override the cached response's headers
+  const headers = new Headers(notModifiedCachedResponse?.headers);
+  response.headers.forEach((value, key) => headers.set(key, value));
+
+  // The cached response's `Age` is outdated once it has been revalidated, and
+  // should not be subtracted from its refreshed freshness lifetime again.
+  if (!response.headers.has("Age")) {
+    headers.delete("Age");
+  }
+
+  const freshness = getResponseFreshness(headers);
+  if (freshness === undefined) {
+    return undefined;
+  }
+
+  const headerEntries: Array<[string, string]> = [];
+  headers.forEach((value, key) => headerEntries.push([key, value]));
+
+  return {
+    status: notModifiedCachedResponse?.status ?? response.status,
+    statusText: notModifiedCachedResponse?.statusText ?? response.statusText,
+    headers: headerEntries,
+    body: notModifiedCachedResponse?.body ?? body,
+    storedAt: Date.now(),
+    ...freshness,
+    varyHeaders: getVaryHeaders(headers, requestHeaders),
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { SimplerFetch } from "../SimplerFetch";
+import { createMockTransport } from "../testing";
+import { LruCacheStorage } from "./LruCacheStorage";
+import { withCachedBody } from "./withCachedBody";
+
+describe("withCachedBody", () => {
+  it("passes the body to onBodyRead only after it has been read", async () => {
+    const onBodyRead = vi.fn(async (_body: ArrayBuffer) => {});
+    const response = await withCachedBody(new Response("hello"), onBodyRead);
+
+    expect(onBodyRead).not.toHaveBeenCalled();
+    expect(await response.text()).toBe("hello");
+    expect(onBodyRead).toHaveBeenCalledTimes(1);
+    expect(new TextDecoder().decode(onBodyRead.mock.calls[0]?.[0])).toBe(
+      "hello"
+    );
+  });
+
+  it("passes an empty body right away for responses without a body", async () => {
+    const onBodyRead = vi.fn(async (_body: ArrayBuffer) => {});
+    await withCachedBody(new Response(null, { status: 200 }), onBodyRead);
+
+    expect(onBodyRead).toHaveBeenCalledWith(new ArrayBuffer(0));
+  });
+
+  it("reads the response body once for both parsing and caching", async () => {
+    const mock = createMockTransport<"v1">();
+    const storage = new LruCacheStorage(10);
+    const sf = new SimplerFetch({
+      baseUrlConfigs: { v1: { url: "https://example.com/v1" } },
+      fetch: mock.fetch,
+      cache: { storage },
+    });
+
+    mock.on("GET /users", () => ({
+      json: [1, 2],
+      headers: { "Cache-Control": "max-age=60" },
+    }));
+
+    const callApi = () =>
+      sf
+        .GET()
+        .useSavedBaseUrl("v1")
+        .path("/users")
+        .parseResponseAsJson()
+        .parseResponseExceptionAsJson()
+        .finishConfig()
+        .runSafely();
+
+    const [, firstResponse] = await callApi();
+    expect(await storage.get("GET https://example.com/v1/users")).toBeDefined();
+
+    const [, secondResponse] = await callApi();
+
+    expect(firstResponse?.data).toEqual([1, 2]);
+    expect(secondResponse?.data).toEqual([1, 2]);
+    expect(secondResponse?.attempts).toBe(0);
+    expect(mock.calls).toHaveLength(1);
+  });
+});
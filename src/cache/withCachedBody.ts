@@ -0,0 +1,52 @@
+/**
+ * Wrap the response so that its body is collected while it is being read by
+ * the response parser, and passed to `onBodyRead` once it has been read fully,
+ * so that the body is only read once for both parsing and caching.
+ *
+ * The body is not passed to `onBodyRead` if the body is never read fully, e.g.
+ * if the body read is aborted or timed out.
+ *
+ * Note that the wrapped `Response` does not keep the `url`, `redirected` and
+ * `type` properties of the original `Response`.
+ */
+export async function withCachedBody(
+  response: Response,
+  onBodyRead: (body: ArrayBuffer) => Promise<void>
+) {
+  if (response.body === null) {
+    await onBodyRead(new ArrayBuffer(0));
+    return response;
+  }
+
+  const chunks: Array<Uint8Array> = [];
+
+  return new Response(
+    response.body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          chunks.push(chunk);
+          controller.enqueue(chunk);
+        },
+
+        async flush() {
+          const body = new Uint8Array(
+            chunks.reduce((length, chunk) => length + chunk.byteLength, 0)
+          );
+
+          let offset = 0;
+          for (const chunk of chunks) {
+            body.set(chunk, offset);
+            offset += chunk.byteLength;
+          }
+
+          await onBodyRead(body.buffer);
+        },
+      })
+    ),
+    {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    }
+  );
+}
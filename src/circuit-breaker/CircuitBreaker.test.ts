@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { CircuitOpenException } from "../exceptions";
+import { CircuitBreaker } from "./CircuitBreaker";
+
+/**
+ * Record failures of API calls that are not probes.
+ */
+function recordFailures(circuitBreaker: CircuitBreaker, count: number) {
+  for (let i = 0; i < count; i++) {
+    circuitBreaker.recordResult(circuitBreaker.beforeRequest(), "failure");
+  }
+}
+
+describe("CircuitBreaker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("opens once the failure threshold is reached", () => {
+    const circuitBreaker = new CircuitBreaker("v1", { failureThreshold: 3 });
+
+    recordFailures(circuitBreaker, 2);
+    expect(circuitBreaker.getState()).toMatchObject({
+      state: "closed",
+      failureCount: 2,
+    });
+
+    recordFailures(circuitBreaker, 1);
+    expect(circuitBreaker.getState().state).toBe("open");
+    expect(() => circuitBreaker.beforeRequest()).toThrow(CircuitOpenException);
+  });
+
+  it("only counts failures within the failure window", () => {
+    const circuitBreaker = new CircuitBreaker("v1", {
+      failureThreshold: 2,
+      failureWindowInMilliseconds: 1000,
+    });
+
+    recordFailures(circuitBreaker, 1);
+    vi.advanceTimersByTime(1001);
+    recordFailures(circuitBreaker, 1);
+
+    expect(circuitBreaker.getState()).toMatchObject({
+      state: "closed",
+      failureCount: 1,
+    });
+  });
+
+  it("fails fast with the remaining open duration", () => {
+    const circuitBreaker = new CircuitBreaker("v1", {
+      failureThreshold: 1,
+      openDurationInMilliseconds: 1000,
+    });
+
+    recordFailures(circuitBreaker, 1);
+    vi.advanceTimersByTime(400);
+
+    expect(() => circuitBreaker.beforeRequest()).toThrow(
+      expect.objectContaining({
+        baseUrlIdentifier: "v1",
+        retryAfterInMilliseconds: 600,
+      })
+    );
+  });
+
+  it("lets a single probe through once half-open, which closes it on success", () => {
+    const circuitBreaker = new CircuitBreaker("v1", {
+      failureThreshold: 1,
+      openDurationInMilliseconds: 1000,
+    });
+
+    recordFailures(circuitBreaker, 1);
+    vi.advanceTimersByTime(1000);
+    expect(circuitBreaker.getState().state).toBe("half-open");
+
+    const isProbe = circuitBreaker.beforeRequest();
+    expect(isProbe).toBe(true);
+    expect(() => circuitBreaker.beforeRequest()).toThrow(CircuitOpenException);
+
+    circuitBreaker.recordResult(isProbe, "success");
+    expect(circuitBreaker.getState()).toEqual({
+      state: "closed",
+      failureCount: 0,
+      openedAt: undefined,
+    });
+  });
+
+  it("opens again if the probe fails", () => {
+    const circuitBreaker = new CircuitBreaker("v1", {
+      failureThreshold: 1,
+      openDurationInMilliseconds: 1000,
+    });
+
+    recordFailures(circuitBreaker, 1);
+    vi.advanceTimersByTime(1000);
+
+    circuitBreaker.recordResult(circuitBreaker.beforeRequest(), "failure");
+    expect(circuitBreaker.getState()).toMatchObject({
+      state: "open",
+      openedAt: Date.now(),
+    });
+  });
+
+  it("lets another probe through if the probe is ignored", () => {
+    const circuitBreaker = new CircuitBreaker("v1", { failureThreshold: 1 });
+
+    recordFailures(circuitBreaker, 1);
+    vi.advanceTimersByTime(30000);
+
+    circuitBreaker.recordResult(circuitBreaker.beforeRequest(), "ignored");
+    expect(circuitBreaker.beforeRequest()).toBe(true);
+  });
+
+  it("does not close on successes of API calls that are not probes", () => {
+    const circuitBreaker = new CircuitBreaker("v1", { failureThreshold: 1 });
+
+    recordFailures(circuitBreaker, 1);
+    circuitBreaker.recordResult(false, "success");
+
+    expect(circuitBreaker.getState().state).toBe("open");
+  });
+
+  it("uses the configured failure statuses", () => {
+    expect(new CircuitBreaker("v1", {}).isFailureStatus(503)).toBe(true);
+    expect(new CircuitBreaker("v1", {}).isFailureStatus(404)).toBe(false);
+    expect(
+      new CircuitBreaker("v1", { failureStatuses: [429] }).isFailureStatus(429)
+    ).toBe(true);
+  });
+});
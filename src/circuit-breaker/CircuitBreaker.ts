@@ -0,0 +1,138 @@
+import type { CircuitBreakerOptions, CircuitBreakerState } from "../types";
+
+import { CircuitOpenException } from "../exceptions";
+
+/**
+ * Circuit breaker of a single base URL, which is shared by every API call made
+ * with the base URL through the same `SimplerFetch` instance.
+ *
+ * See `CircuitBreakerOptions` for how the circuit breaker works.
+ */
+export class CircuitBreaker {
+  constructor(
+    private readonly baseUrlIdentifier: string,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  /**
+   * Timestamps of the failures within the failure window, oldest first.
+   */
+  #failures: Array<number> = [];
+
+  #openedAt: number | undefined;
+
+  #isProbeInFlight = false;
+
+  get #openDurationInMilliseconds() {
+    return this.options.openDurationInMilliseconds ?? 30000;
+  }
+
+  #getState(): CircuitBreakerState["state"] {
+    if (this.#openedAt === undefined) {
+      return "closed";
+    }
+
+    return Date.now() - this.#openedAt < this.#openDurationInMilliseconds
+      ? "open"
+      : "half-open";
+  }
+
+  #pruneFailures() {
+    const failureWindowStart =
+      Date.now() - (this.options.failureWindowInMilliseconds ?? 60000);
+
+    this.#failures = this.#failures.filter(
+      (failedAt) => failedAt > failureWindowStart
+    );
+  }
+
+  getState(): CircuitBreakerState {
+    this.#pruneFailures();
+
+    return {
+      state: this.#getState(),
+      failureCount: this.#failures.length,
+      openedAt: this.#openedAt,
+    };
+  }
+
+  /**
+   * Close the circuit breaker and forget all the failures.
+   */
+  reset() {
+    this.#failures = [];
+    this.#openedAt = undefined;
+    this.#isProbeInFlight = false;
+  }
+
+  isFailureStatus(status: number) {
+    return (this.options.failureStatuses ?? [500, 502, 503, 504]).includes(
+      status
+    );
+  }
+
+  /**
+   * Call before making an API call, which throws a `CircuitOpenException` if
+   * the API call should fail fast.
+   *
+   * Returns true if the API call is the probe API call of the half-open
+   * circuit breaker, which should be passed to `recordResult`.
+   */
+  beforeRequest() {
+    const state = this.#getState();
+
+    if (state === "closed") {
+      return false;
+    }
+
+    if (state === "half-open" && !this.#isProbeInFlight) {
+      this.#isProbeInFlight = true;
+      return true;
+    }
+
+    throw new CircuitOpenException(
+      this.baseUrlIdentifier,
+      Math.max(
+        // Type cast is safe since the circuit breaker is not closed
+        (this.#openedAt as number) +
+          this.#openDurationInMilliseconds -
+          Date.now(),
+        0
+      )
+    );
+  }
+
+  /**
+   * Record the result of an API call, where "ignored" is for API calls that
+   * neither succeeded nor failed, e.g. cancelled API calls.
+   */
+  recordResult(isProbe: boolean, result: "success" | "failure" | "ignored") {
+    if (isProbe) {
+      this.#isProbeInFlight = false;
+    }
+
+    if (result === "ignored") {
+      return;
+    }
+
+    if (result === "success") {
+      // Only the probe API call can close the circuit breaker, since the
+      // other API calls could have been made before it opened.
+      if (isProbe) {
+        this.reset();
+      }
+      return;
+    }
+
+    this.#failures.push(Date.now());
+    this.#pruneFailures();
+
+    if (
+      isProbe ||
+      (this.#openedAt === undefined &&
+        this.#failures.length >= (this.options.failureThreshold ?? 5))
+    ) {
+      this.#openedAt = Date.now();
+    }
+  }
+}
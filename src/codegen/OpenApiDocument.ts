@@ -0,0 +1,109 @@
+/**
+ * Schema object of an OpenAPI document, only including the JSON schema
+ * keywords used for code generation.
+ */
+export type OpenApiSchema = {
+  readonly $ref?: string;
+  readonly type?: string | ReadonlyArray<string>;
+  readonly nullable?: boolean;
+  readonly enum?: ReadonlyArray<unknown>;
+  readonly const?: unknown;
+  readonly properties?: Readonly<Record<string, OpenApiSchema>>;
+  readonly required?: ReadonlyArray<string>;
+  readonly additionalProperties?: boolean | OpenApiSchema;
+  readonly items?: OpenApiSchema;
+  readonly oneOf?: ReadonlyArray<OpenApiSchema>;
+  readonly anyOf?: ReadonlyArray<OpenApiSchema>;
+  readonly allOf?: ReadonlyArray<OpenApiSchema>;
+  readonly description?: string;
+};
+
+/**
+ * Map of media types to their schema, used for request and response bodies.
+ */
+export type OpenApiContent = Readonly<
+  Record<string, { readonly schema?: OpenApiSchema }>
+>;
+
+/**
+ * Parameter object of an OpenAPI document.
+ */
+export type OpenApiParameter = {
+  readonly $ref?: string;
+  readonly name: string;
+  readonly in: "cookie" | "header" | "path" | "query";
+  readonly required?: boolean;
+  readonly schema?: OpenApiSchema;
+};
+
+/**
+ * Request body object of an OpenAPI document.
+ */
+export type OpenApiRequestBody = {
+  readonly $ref?: string;
+  readonly content?: OpenApiContent;
+};
+
+/**
+ * Response object of an OpenAPI document.
+ */
+export type OpenApiResponse = {
+  readonly $ref?: string;
+  readonly content?: OpenApiContent;
+};
+
+/**
+ * Server object of an OpenAPI document.
+ */
+export type OpenApiServer = {
+  readonly url: string;
+  readonly description?: string;
+  readonly variables?: Readonly<Record<string, { readonly default: string }>>;
+};
+
+/**
+ * Operation object of an OpenAPI document.
+ */
+export type OpenApiOperation = {
+  readonly operationId?: string;
+  readonly summary?: string;
+  readonly parameters?: ReadonlyArray<OpenApiParameter>;
+  readonly requestBody?: OpenApiRequestBody;
+  readonly responses?: Readonly<Record<string, OpenApiResponse>>;
+  readonly servers?: ReadonlyArray<OpenApiServer>;
+};
+
+/**
+ * Path item object of an OpenAPI document.
+ */
+export type OpenApiPathItem = {
+  readonly parameters?: ReadonlyArray<OpenApiParameter>;
+  readonly servers?: ReadonlyArray<OpenApiServer>;
+} & {
+  readonly [Method in
+    | "delete"
+    | "get"
+    | "head"
+    | "options"
+    | "patch"
+    | "post"
+    | "put"]?: OpenApiOperation;
+};
+
+/**
+ * ## `OpenApiDocument` Type
+ * OpenAPI 3.0 / 3.1 document, only including the fields used for code
+ * generation.
+ */
+export type OpenApiDocument = {
+  readonly openapi: string;
+  readonly info?: { readonly title?: string; readonly version?: string };
+  readonly servers?: ReadonlyArray<OpenApiServer>;
+  readonly paths?: Readonly<Record<string, OpenApiPathItem>>;
+  readonly components?: {
+    readonly schemas?: Readonly<Record<string, OpenApiSchema>>;
+    readonly parameters?: Readonly<Record<string, OpenApiParameter>>;
+    readonly requestBodies?: Readonly<Record<string, OpenApiRequestBody>>;
+    readonly responses?: Readonly<Record<string, OpenApiResponse>>;
+  };
+};
@@ -0,0 +1,61 @@
+import { writeFile } from "node:fs/promises";
+
+import { generateClientFromOpenApi } from "./generateClientFromOpenApi";
+import { readOpenApiDocument } from "./readOpenApiDocument";
+
+const usage = `Usage: simpler-fetch-codegen <openapi-file> [--out <file>] [--import-from <module>] [--base-url <url>]
+
+Generate a typed simpler-fetch client from an OpenAPI 3.0 / 3.1 JSON or YAML
+document, printing it to stdout if --out is not set. Set --base-url to resolve
+relative server URLs against, which is required if the document has no servers.
+`;
+
+/**
+ * CLI for `generateClientFromOpenApi`.
+ */
+async function main(args: Array<string>) {
+  let inputFile: string | undefined;
+  let outputFile: string | undefined;
+  let importFrom: string | undefined;
+  let baseUrl: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--out") {
+      outputFile = args[++i];
+    } else if (arg === "--import-from") {
+      importFrom = args[++i];
+    } else if (arg === "--base-url") {
+      baseUrl = args[++i];
+    } else if (arg === "--help" || arg === "-h") {
+      process.stdout.write(usage);
+      return;
+    } else {
+      inputFile = arg;
+    }
+  }
+
+  if (inputFile === undefined) {
+    process.stderr.write(usage);
+    process.exitCode = 1;
+    return;
+  }
+
+  const code = generateClientFromOpenApi(await readOpenApiDocument(inputFile), {
+    importFrom,
+    baseUrl,
+  });
+
+  if (outputFile === undefined) {
+    process.stdout.write(code);
+  } else {
+    await writeFile(outputFile, code);
+  }
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  process.stderr.write(
+    `${error instanceof Error ? error.message : String(error)}\n`
+  );
+  process.exitCode = 1;
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+
+import type { OpenApiDocument } from "./OpenApiDocument";
+
+import { SimplerFetchError } from "../errors";
+import { generateClientFromOpenApi } from "./generateClientFromOpenApi";
+
+describe("generateClientFromOpenApi", () => {
+  it("keeps OpenAPI path params in the generated paths as is", () => {
+    const code = generateClientFromOpenApi({
+      openapi: "3.1.0",
+      servers: [{ url: "https://example.com" }],
+      paths: {
+        "/files/{name}.json": { get: { operationId: "getFile" } },
+        "/{a}-{b}": { get: { operationId: "getRange" } },
+      },
+    });
+
+    expect(code).toContain('path: "/files/{name}.json"');
+    expect(code).toContain('path: "/{a}-{b}"');
+  });
+
+  it("resolves $ref to the deduplicated type names of component schemas", () => {
+    const document: OpenApiDocument = {
+      openapi: "3.1.0",
+      components: {
+        schemas: {
+          // Both schema names generate the `UserProfile` type name
+          "user-profile": { type: "string" },
+          user_profile: { type: "number" },
+          Wrapper: {
+            type: "object",
+            properties: {
+              first: { $ref: "#/components/schemas/user-profile" },
+              second: { $ref: "#/components/schemas/user_profile" },
+            },
+          },
+        },
+      },
+    };
+
+    const code = generateClientFromOpenApi(document);
+    const typeNames = Array.from(
+      code.matchAll(/export type (\w+) = (string|number);/g),
+      ([, name, type]) => ({ name, type })
+    );
+    const stringTypeName = typeNames.find(
+      ({ type }) => type === "string"
+    )?.name;
+    const numberTypeName = typeNames.find(
+      ({ type }) => type === "number"
+    )?.name;
+
+    expect(new Set([stringTypeName, numberTypeName])).toEqual(
+      new Set(["UserProfile", "UserProfile2"])
+    );
+    expect(code).toContain(`first?: ${stringTypeName};`);
+    expect(code).toContain(`second?: ${numberTypeName};`);
+    expect(code).toContain(`is${stringTypeName}(data["first"])`);
+    expect(code).toContain(`is${numberTypeName}(data["second"])`);
+  });
+
+  it("suffixes type names of component schemas that clash with global types", () => {
+    const code = generateClientFromOpenApi({
+      openapi: "3.1.0",
+      components: {
+        schemas: {
+          Error: {
+            type: "object",
+            properties: { message: { type: "string" } },
+          },
+          ErrorList: {
+            type: "array",
+            items: { $ref: "#/components/schemas/Error" },
+          },
+        },
+      },
+    });
+
+    expect(code).not.toMatch(/export type Error =/);
+    expect(code).toContain("export type ErrorSchema =");
+    expect(code).toContain("export type ErrorList = Array<ErrorSchema>;");
+    expect(code).toContain("function isErrorSchema(");
+  });
+
+  it("keeps absolute server URLs as is", () => {
+    const code = generateClientFromOpenApi(
+      {
+        openapi: "3.1.0",
+        servers: [{ url: "https://api.example.com/v1", description: "Prod" }],
+        paths: { "/users": { get: { operationId: "listUsers" } } },
+      },
+      { baseUrl: "https://docs.example.com/openapi.json" }
+    );
+
+    expect(code).toContain('prod: { url: "https://api.example.com/v1" },');
+  });
+
+  it("resolves relative server URLs against the base URL", () => {
+    const code = generateClientFromOpenApi(
+      {
+        openapi: "3.1.0",
+        servers: [{ url: "/v1", description: "Prod" }],
+        paths: {
+          "/users": {
+            get: { operationId: "listUsers" },
+            post: { operationId: "createUser", servers: [] },
+          },
+        },
+      },
+      { baseUrl: "https://api.example.com/openapi.json" }
+    );
+
+    expect(code).toContain('prod: { url: "https://api.example.com/v1" },');
+    expect(code).toContain('default: { url: "https://api.example.com" },');
+  });
+
+  it.each([
+    ["has no servers", undefined],
+    ["has relative server URLs", [{ url: "/v1" }]],
+  ])("rejects documents that %s without a base URL", (_, servers) => {
+    expect(() =>
+      generateClientFromOpenApi({
+        openapi: "3.1.0",
+        servers,
+        paths: { "/users": { get: { operationId: "listUsers" } } },
+      })
+    ).toThrow(SimplerFetchError);
+  });
+
+  it("rejects $ref that are not component schemas", () => {
+    expect(() =>
+      generateClientFromOpenApi({
+        openapi: "3.1.0",
+        components: {
+          schemas: { User: { $ref: "#/components/schemas/Missing" } },
+        },
+      })
+    ).toThrow(SimplerFetchError);
+  });
+
+  it("rejects documents that are not OpenAPI 3", () => {
+    expect(() =>
+      generateClientFromOpenApi({ openapi: "2.0" } as OpenApiDocument)
+    ).toThrow(SimplerFetchError);
+  });
+});
@@ -0,0 +1,497 @@
+import type {
+  OpenApiContent,
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiPathItem,
+  OpenApiSchema,
+  OpenApiServer,
+} from "./OpenApiDocument";
+import type { SchemaTypeNames } from "./schemaToType";
+
+import { SimplerFetchError } from "../errors";
+import { schemaToType } from "./schemaToType";
+import { schemaToValidator } from "./schemaToValidator";
+import {
+  toCamelCaseIdentifier,
+  toPascalCaseIdentifier,
+  toPropertyKey,
+} from "./toIdentifier";
+
+/**
+ * HTTP methods supported by OpenAPI path items, in the order that their
+ * operations are generated in.
+ */
+const httpMethods = [
+  "get",
+  "head",
+  "options",
+  "post",
+  "put",
+  "patch",
+  "delete",
+] as const;
+
+/**
+ * Options for `generateClientFromOpenApi`.
+ */
+export type GenerateClientOptions = {
+  /**
+   * Module to import `defineEndpoints` from in the generated code, defaults to
+   * `simpler-fetch`.
+   */
+  readonly importFrom?: string;
+
+  /**
+   * Absolute URL that relative server URLs are resolved against, e.g. the URL
+   * that the document is served from, which is also used as the server URL if
+   * the document has no `servers`. This is required if the document has no
+   * `servers` or has relative server URLs, since API calls need absolute URLs.
+   */
+  readonly baseUrl?: string;
+};
+
+/**
+ * Names of global types that generated type names must not shadow, since the
+ * generated code uses some of them and the generated types are imported
+ * alongside them.
+ */
+const globalTypeNames = new Set([
+  "Array",
+  "Blob",
+  "Boolean",
+  "Date",
+  "Error",
+  "File",
+  "FormData",
+  "Function",
+  "Headers",
+  "Map",
+  "Number",
+  "Object",
+  "Omit",
+  "Partial",
+  "Pick",
+  "Promise",
+  "Readonly",
+  "Record",
+  "Request",
+  "Required",
+  "Response",
+  "Set",
+  "String",
+  "Symbol",
+  "URL",
+]);
+
+/**
+ * Resolve a local `$ref` like `#/components/parameters/userId` into the object
+ * it references.
+ */
+function resolveRef<T extends { readonly $ref?: string }>(
+  document: OpenApiDocument,
+  object: T
+): T {
+  if (object.$ref === undefined) {
+    return object;
+  }
+
+  if (!object.$ref.startsWith("#/")) {
+    throw new SimplerFetchError(
+      `Only local $ref are supported, but found '${object.$ref}'`
+    );
+  }
+
+  const resolved = object.$ref
+    .slice(2)
+    .split("/")
+    .map((key) => key.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce<unknown>(
+      (parent, key) => (parent as Record<string, unknown> | undefined)?.[key],
+      document
+    );
+
+  if (resolved === undefined) {
+    throw new SimplerFetchError(`Cannot resolve $ref '${object.$ref}'`);
+  }
+
+  return resolveRef(document, resolved as T);
+}
+
+/**
+ * Get the local `$ref` of a component schema, where `~` and `/` in the schema
+ * name are escaped as specified by JSON Pointer.
+ */
+const toComponentSchemaRef = (name: string) =>
+  `#/components/schemas/${name.replace(/~/g, "~0").replace(/\//g, "~1")}`;
+
+/**
+ * Get the schema of the first JSON media type in the content map.
+ */
+const getJsonSchema = (content: OpenApiContent | undefined) =>
+  Object.entries(content ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .find(([mediaType]) => /json/i.test(mediaType))?.[1].schema;
+
+/**
+ * Generate the URL of a server with all its variables replaced with their
+ * default values.
+ */
+const getServerUrl = (server: OpenApiServer) =>
+  Object.entries(server.variables ?? {}).reduce(
+    (url, [name, variable]) => url.replaceAll(`{${name}}`, variable.default),
+    server.url
+  );
+
+/**
+ * Resolve the server URL against the base URL if it is relative, or fail if
+ * there is no base URL to resolve it against. Absolute server URLs are kept as
+ * is.
+ */
+function resolveServerUrl(url: string, baseUrl: string | undefined) {
+  try {
+    new URL(url);
+    return url;
+  } catch {
+    // Relative server URLs are resolved against the base URL below
+  }
+
+  if (baseUrl === undefined) {
+    throw new SimplerFetchError(
+      `Server URL '${url}' is relative, set the 'baseUrl' option to resolve it against`
+    );
+  }
+
+  // Remove the trailing slash since API paths start with a slash
+  return new URL(url, baseUrl).href.replace(/\/$/, "");
+}
+
+/**
+ * Generate a type name for the component schema, which gets a `Schema` suffix
+ * if it clashes with a global type name like `Error`.
+ */
+const toSchemaTypeName = (name: string) => {
+  const typeName = toPascalCaseIdentifier(name);
+  return globalTypeNames.has(typeName) ? `${typeName}Schema` : typeName;
+};
+
+/**
+ * Generate a unique name by adding a numbered suffix if the name is used.
+ */
+function getUniqueName(name: string, usedNames: Set<string>) {
+  let uniqueName = name;
+  for (let i = 2; usedNames.has(uniqueName); i++) {
+    uniqueName = `${name}${i}`;
+  }
+  usedNames.add(uniqueName);
+  return uniqueName;
+}
+
+/**
+ * Generate a doc comment from a description.
+ */
+const toDocComment = (description: string | undefined, indent = "") =>
+  description === undefined
+    ? ""
+    : `${indent}/**\n${description
+        .trim()
+        .replace(/\*\//g, "*\\/")
+        .split("\n")
+        .map((line) => `${indent} * ${line}`.trimEnd())
+        .join("\n")}\n${indent} */\n`;
+
+/**
+ * Generate a named type and its validator function.
+ */
+const generateTypeAndValidator = (
+  name: string,
+  schema: OpenApiSchema,
+  schemaTypeNames: SchemaTypeNames,
+  description?: string
+) =>
+  `${toDocComment(description)}export type ${name} = ${schemaToType(
+    schema,
+    schemaTypeNames
+  )};
+
+export function is${name}(data: unknown): data is ${name} {
+  return ${schemaToValidator(schema, schemaTypeNames, "data")};
+}
+`;
+
+/**
+ * Generate a single schema that is the union of all the schemas.
+ */
+const toUnionSchema = (
+  schemas: Array<OpenApiSchema>
+): OpenApiSchema | undefined =>
+  schemas.length > 1 ? { oneOf: schemas } : schemas[0];
+
+/**
+ * ## `generateClientFromOpenApi`
+ * Generate TypeScript code for a typed client from an OpenAPI 3.0 / 3.1
+ * document, which includes:
+ * - `baseUrlConfigs` generated from the document's `servers`
+ * - Types and `Validator`s for all the component schemas
+ * - `endpoints`, an endpoint contract for every operation, with the types and
+ * validators for its query params, JSON request body, JSON responses and
+ * JSON error responses
+ *
+ * Path params are typed from the path templates as strings or numbers instead
+ * of from their schemas, while header and cookie params are not generated and
+ * should be set with `useHeader` instead.
+ *
+ * Throws `SimplerFetchError` if a server URL is relative or if there are no
+ * servers, unless the `baseUrl` option is set to resolve them against.
+ *
+ * The generated code is deterministic for the same document and does not need
+ * network access, so that it can be committed.
+ *
+ * @example
+ * ```typescript
+ * import { baseUrlConfigs, endpoints } from "./generated/api";
+ *
+ * const sf = new SimplerFetch({ baseUrlConfigs, endpoints });
+ * const [err, res] = await sf.endpoints
+ *   .getUser({ params: { userId: 1 } })
+ *   .finishConfig()
+ *   .runSafely();
+ * ```
+ */
+export function generateClientFromOpenApi(
+  document: OpenApiDocument,
+  { importFrom = "simpler-fetch", baseUrl }: GenerateClientOptions = {}
+) {
+  if (
+    typeof document?.openapi !== "string" ||
+    !document.openapi.startsWith("3.")
+  ) {
+    throw new SimplerFetchError(
+      "Only OpenAPI 3.0 and 3.1 documents are supported"
+    );
+  }
+
+  // Base URL identifiers generated from the server descriptions, keyed by the
+  // server URL, so that operation level servers can reuse them.
+  const baseUrlIdentifiers = new Map<string, string>();
+  const usedBaseUrlIdentifiers = new Set<string>();
+  const getBaseUrlIdentifier = (servers: ReadonlyArray<OpenApiServer>) => {
+    // Defaults to "/" as specified by OpenAPI, which is resolved against the
+    // base URL.
+    const server = servers[0] ?? { url: "/" };
+    const url = resolveServerUrl(getServerUrl(server), baseUrl);
+
+    if (!baseUrlIdentifiers.has(url)) {
+      baseUrlIdentifiers.set(
+        url,
+        getUniqueName(
+          toCamelCaseIdentifier(server.description ?? "default"),
+          usedBaseUrlIdentifiers
+        )
+      );
+    }
+
+    return baseUrlIdentifiers.get(url)!;
+  };
+
+  const documentServers = document.servers ?? [];
+  documentServers.forEach((server) => getBaseUrlIdentifier([server]));
+
+  const usedNames = new Set<string>(["isObject"]);
+  const componentSchemas = Object.entries(
+    document.components?.schemas ?? {}
+  ).sort(([a], [b]) => a.localeCompare(b));
+
+  // Unique type names are generated for all the component schemas first, so
+  // that `$ref`s resolve to the deduplicated type names instead of generating
+  // the type name again from the `$ref`, which could refer to another type.
+  const schemaTypeNames: SchemaTypeNames = new Map(
+    componentSchemas.map(([name]) => [
+      toComponentSchemaRef(name),
+      getUniqueName(toSchemaTypeName(name), usedNames),
+    ])
+  );
+
+  const schemas = componentSchemas.map(([name, schema]) =>
+    generateTypeAndValidator(
+      schemaTypeNames.get(toComponentSchemaRef(name))!,
+      schema,
+      schemaTypeNames,
+      schema.description
+    )
+  );
+
+  const operationTypes: Array<string> = [];
+  const endpoints: Array<string> = [];
+
+  const paths = Object.entries(document.paths ?? {}).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+
+  for (const [path, pathItem] of paths) {
+    for (const method of httpMethods) {
+      const operation = pathItem[method];
+      if (operation === undefined) {
+        continue;
+      }
+
+      const name = getUniqueName(
+        toCamelCaseIdentifier(operation.operationId ?? `${method} ${path}`),
+        usedNames
+      );
+      const typeName = toPascalCaseIdentifier(name);
+
+      const contract = generateEndpointContract(
+        document,
+        path,
+        method,
+        pathItem,
+        operation,
+        typeName,
+        getBaseUrlIdentifier(
+          operation.servers ?? pathItem.servers ?? documentServers
+        ),
+        operationTypes,
+        usedNames,
+        schemaTypeNames
+      );
+
+      endpoints.push(
+        `${toDocComment(operation.summary, "  ")}  ${toPropertyKey(
+          name
+        )}: {\n${contract}  },`
+      );
+    }
+  }
+
+  const baseUrlConfigs = Array.from(baseUrlIdentifiers).map(
+    ([url, identifier]) =>
+      `  ${toPropertyKey(identifier)}: { url: ${JSON.stringify(url)} },`
+  );
+
+  const title = document.info?.title ?? "OpenAPI document";
+  const version = document.info?.version ?? "unknown";
+
+  return `/**
+ * Generated by simpler-fetch from ${title} version ${version}.
+ * Do not edit this file manually, regenerate it instead.
+ */
+
+import { defineEndpoints } from ${JSON.stringify(importFrom)};
+
+const isObject = (data: unknown): data is Record<string, unknown> =>
+  typeof data === "object" && data !== null && !Array.isArray(data);
+
+export const baseUrlConfigs = {
+${baseUrlConfigs.join("\n")}
+};
+${[...schemas, ...operationTypes].map((code) => `\n${code}`).join("")}
+export const endpoints = defineEndpoints({
+${endpoints.join("\n")}
+});
+`;
+}
+
+/**
+ * Generate the properties of the endpoint contract of an operation, and add
+ * the types and validators it uses to `operationTypes`.
+ */
+function generateEndpointContract(
+  document: OpenApiDocument,
+  path: string,
+  method: (typeof httpMethods)[number],
+  pathItem: OpenApiPathItem,
+  operation: OpenApiOperation,
+  typeName: string,
+  baseUrlIdentifier: string,
+  operationTypes: Array<string>,
+  usedNames: Set<string>,
+  schemaTypeNames: SchemaTypeNames
+) {
+  const addTypeAndValidator = (suffix: string, schema: OpenApiSchema) => {
+    const name = getUniqueName(`${typeName}${suffix}`, usedNames);
+    operationTypes.push(
+      generateTypeAndValidator(name, schema, schemaTypeNames)
+    );
+    return `is${name}`;
+  };
+
+  const contract = [
+    `method: ${JSON.stringify(method.toUpperCase())}`,
+    `baseUrlIdentifier: ${JSON.stringify(baseUrlIdentifier)}`,
+    // OpenAPI path params like `{id}` are supported by path templates as is,
+    // including path params that are only part of a path segment.
+    `path: ${JSON.stringify(path)}`,
+  ];
+
+  // Operation level parameters override path level parameters
+  const parameters = new Map<string, OpenApiParameter>();
+  for (const parameter of [
+    ...(pathItem.parameters ?? []),
+    ...(operation.parameters ?? []),
+  ]) {
+    const resolvedParameter = resolveRef(document, parameter);
+    parameters.set(
+      `${resolvedParameter.in}:${resolvedParameter.name}`,
+      resolvedParameter
+    );
+  }
+
+  const queryParameters = Array.from(parameters.values()).filter(
+    (parameter) => parameter.in === "query"
+  );
+  if (queryParameters.length > 0) {
+    const validator = addTypeAndValidator("Query", {
+      type: "object",
+      properties: Object.fromEntries(
+        queryParameters.map((parameter) => [
+          parameter.name,
+          // Query params without a schema are treated as strings
+          parameter.schema ?? { type: "string" },
+        ])
+      ),
+      required: queryParameters
+        .filter((parameter) => parameter.required)
+        .map((parameter) => parameter.name),
+    });
+    contract.push(`query: ${validator}`);
+  }
+
+  const bodySchema =
+    operation.requestBody === undefined
+      ? undefined
+      : getJsonSchema(resolveRef(document, operation.requestBody).content);
+  if (bodySchema !== undefined) {
+    contract.push(`body: ${addTypeAndValidator("Body", bodySchema)}`);
+  }
+
+  const responseSchemas: Array<OpenApiSchema> = [];
+  const exceptionSchemas: Array<OpenApiSchema> = [];
+  const responses = Object.entries(operation.responses ?? {}).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+  for (const [status, response] of responses) {
+    const schema = getJsonSchema(resolveRef(document, response).content);
+    if (schema !== undefined) {
+      (status.startsWith("2") ? responseSchemas : exceptionSchemas).push(
+        schema
+      );
+    }
+  }
+
+  const responseSchema = toUnionSchema(responseSchemas);
+  if (responseSchema !== undefined) {
+    contract.push(
+      `response: ${addTypeAndValidator("Response", responseSchema)}`
+    );
+  }
+
+  const exceptionSchema = toUnionSchema(exceptionSchemas);
+  if (exceptionSchema !== undefined) {
+    contract.push(
+      `exception: ${addTypeAndValidator("Exception", exceptionSchema)}`
+    );
+  }
+
+  return contract.map((property) => `    ${property},\n`).join("");
+}
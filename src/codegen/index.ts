@@ -0,0 +1,8 @@
+/**
+ * Barrel file to export everything a library user can access from the
+ * `simpler-fetch/codegen` entry point.
+ */
+
+export * from "./generateClientFromOpenApi";
+export type * from "./OpenApiDocument";
+export * from "./readOpenApiDocument";
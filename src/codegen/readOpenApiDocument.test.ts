@@ -0,0 +1,39 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { SimplerFetchError } from "../errors";
+import { readOpenApiDocument } from "./readOpenApiDocument";
+
+describe("readOpenApiDocument", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "simpler-fetch-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("reads JSON documents", async () => {
+    const filePath = join(directory, "openapi.json");
+    await writeFile(filePath, JSON.stringify({ openapi: "3.1.0" }));
+
+    expect(await readOpenApiDocument(filePath)).toEqual({ openapi: "3.1.0" });
+  });
+
+  it("asks to install the yaml package if it is missing", async () => {
+    const filePath = join(directory, "openapi.yaml");
+    await writeFile(filePath, "openapi: 3.1.0\n");
+
+    // The optional `yaml` peer dependency is not installed for development
+    await expect(readOpenApiDocument(filePath)).rejects.toThrow(
+      SimplerFetchError
+    );
+    await expect(readOpenApiDocument(filePath)).rejects.toThrow(
+      /npm install yaml/
+    );
+  });
+});
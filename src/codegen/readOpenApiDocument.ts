@@ -0,0 +1,34 @@
+import { readFile } from "node:fs/promises";
+
+import type { OpenApiDocument } from "./OpenApiDocument";
+
+import { SimplerFetchError } from "../errors";
+
+/**
+ * Read an OpenAPI document from a JSON or YAML file.
+ *
+ * YAML files require the `yaml` package to be installed, which is an optional
+ * peer dependency that is only loaded when reading YAML files.
+ */
+export async function readOpenApiDocument(
+  filePath: string
+): Promise<OpenApiDocument> {
+  const content = await readFile(filePath, "utf8");
+
+  if (!/\.ya?ml$/i.test(filePath)) {
+    return JSON.parse(content);
+  }
+
+  // Module name is stored in a variable so that the optional dependency is not
+  // resolved by TSC and the bundler.
+  const yamlModuleName = "yaml";
+  const yaml: { parse: (content: string) => OpenApiDocument } = await import(
+    yamlModuleName
+  ).catch(() => {
+    throw new SimplerFetchError(
+      `Install the optional 'yaml' peer dependency with 'npm install yaml' to read YAML OpenAPI documents like '${filePath}'`
+    );
+  });
+
+  return yaml.parse(content);
+}
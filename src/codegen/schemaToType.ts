@@ -0,0 +1,147 @@
+import type { OpenApiSchema } from "./OpenApiDocument";
+
+import { SimplerFetchError } from "../errors";
+import { toPropertyKey } from "./toIdentifier";
+
+/**
+ * Map of component schema `$ref`s like `#/components/schemas/User` to the
+ * unique type names generated for them.
+ */
+export type SchemaTypeNames = ReadonlyMap<string, string>;
+
+/**
+ * Get the unique type name generated for the component schema referenced by
+ * `$ref`, which is also used for the name of its validator function.
+ */
+export function getSchemaTypeName(
+  $ref: string,
+  schemaTypeNames: SchemaTypeNames
+) {
+  const typeName = schemaTypeNames.get($ref);
+
+  if (typeName === undefined) {
+    throw new SimplerFetchError(
+      `Only $ref to component schemas are supported, but found '${$ref}'`
+    );
+  }
+
+  return typeName;
+}
+
+/**
+ * Generate the TypeScript type for a schema, where `$ref`s to component
+ * schemas use their generated type names.
+ */
+export function schemaToType(
+  schema: OpenApiSchema,
+  schemaTypeNames: SchemaTypeNames,
+  indent = ""
+): string {
+  if (schema.$ref !== undefined) {
+    return getSchemaTypeName(schema.$ref, schemaTypeNames);
+  }
+
+  const type = schemaToNonNullableType(schema, schemaTypeNames, indent);
+  return schema.nullable === true ? `${type} | null` : type;
+}
+
+function schemaToNonNullableType(
+  schema: OpenApiSchema,
+  schemaTypeNames: SchemaTypeNames,
+  indent: string
+) {
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+
+  if (schema.enum !== undefined) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  }
+
+  if (schema.oneOf !== undefined || schema.anyOf !== undefined) {
+    return (schema.oneOf ?? schema.anyOf)!
+      .map(
+        (subSchema) => `(${schemaToType(subSchema, schemaTypeNames, indent)})`
+      )
+      .join(" | ");
+  }
+
+  if (schema.allOf !== undefined) {
+    return schema.allOf
+      .map(
+        (subSchema) => `(${schemaToType(subSchema, schemaTypeNames, indent)})`
+      )
+      .join(" & ");
+  }
+
+  // OpenAPI 3.1 supports multiple types like `["string", "null"]`
+  if (Array.isArray(schema.type)) {
+    return schema.type
+      .map((type: string) =>
+        schemaToType({ ...schema, type }, schemaTypeNames, indent)
+      )
+      .join(" | ");
+  }
+
+  switch (schema.type ?? inferSchemaType(schema)) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array":
+      return `Array<${
+        schema.items === undefined
+          ? "unknown"
+          : schemaToType(schema.items, schemaTypeNames, indent)
+      }>`;
+    case "object":
+      return objectSchemaToType(schema, schemaTypeNames, indent);
+    default:
+      return "unknown";
+  }
+}
+
+function objectSchemaToType(
+  schema: OpenApiSchema,
+  schemaTypeNames: SchemaTypeNames,
+  indent: string
+) {
+  if (schema.properties === undefined) {
+    return typeof schema.additionalProperties === "object"
+      ? `Record<string, ${schemaToType(
+          schema.additionalProperties,
+          schemaTypeNames,
+          indent
+        )}>`
+      : "Record<string, unknown>";
+  }
+
+  const innerIndent = `${indent}  `;
+  const properties = Object.entries(schema.properties).map(
+    ([key, propertySchema]) =>
+      `${innerIndent}${toPropertyKey(key)}${
+        schema.required?.includes(key) ? "" : "?"
+      }: ${schemaToType(propertySchema, schemaTypeNames, innerIndent)};`
+  );
+
+  return `{\n${properties.join("\n")}\n${indent}}`;
+}
+
+/**
+ * Infer the type of schemas without the `type` keyword from the other keywords
+ * used.
+ */
+export function inferSchemaType(schema: OpenApiSchema) {
+  if (schema.properties !== undefined) {
+    return "object";
+  }
+  if (schema.items !== undefined) {
+    return "array";
+  }
+  return undefined;
+}
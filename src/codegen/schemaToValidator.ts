@@ -0,0 +1,140 @@
+import type { OpenApiSchema } from "./OpenApiDocument";
+import type { SchemaTypeNames } from "./schemaToType";
+
+import { getSchemaTypeName, inferSchemaType } from "./schemaToType";
+
+/**
+ * Generate a boolean expression that validates the value of the `value`
+ * expression against a schema, where `$ref`s to component schemas use their
+ * generated validator functions.
+ *
+ * `depth` is used to generate unique variable names for nested callbacks.
+ */
+export function schemaToValidator(
+  schema: OpenApiSchema,
+  schemaTypeNames: SchemaTypeNames,
+  value: string,
+  depth = 0
+): string {
+  if (schema.$ref !== undefined) {
+    return `is${getSchemaTypeName(schema.$ref, schemaTypeNames)}(${value})`;
+  }
+
+  const expression = schemaToNonNullableValidator(
+    schema,
+    schemaTypeNames,
+    value,
+    depth
+  );
+  return schema.nullable === true
+    ? `(${value} === null || ${expression})`
+    : expression;
+}
+
+function schemaToNonNullableValidator(
+  schema: OpenApiSchema,
+  schemaTypeNames: SchemaTypeNames,
+  value: string,
+  depth: number
+): string {
+  if (schema.const !== undefined) {
+    return `${value} === ${JSON.stringify(schema.const)}`;
+  }
+
+  if (schema.enum !== undefined) {
+    return `(${schema.enum
+      .map((enumValue) => `${value} === ${JSON.stringify(enumValue)}`)
+      .join(" || ")})`;
+  }
+
+  if (schema.oneOf !== undefined || schema.anyOf !== undefined) {
+    return `(${(schema.oneOf ?? schema.anyOf)!
+      .map((subSchema) =>
+        schemaToValidator(subSchema, schemaTypeNames, value, depth)
+      )
+      .join(" || ")})`;
+  }
+
+  if (schema.allOf !== undefined) {
+    return `(${schema.allOf
+      .map((subSchema) =>
+        schemaToValidator(subSchema, schemaTypeNames, value, depth)
+      )
+      .join(" && ")})`;
+  }
+
+  // OpenAPI 3.1 supports multiple types like `["string", "null"]`
+  if (Array.isArray(schema.type)) {
+    return `(${schema.type
+      .map((type: string) =>
+        schemaToValidator({ ...schema, type }, schemaTypeNames, value, depth)
+      )
+      .join(" || ")})`;
+  }
+
+  switch (schema.type ?? inferSchemaType(schema)) {
+    case "string":
+      return `typeof ${value} === "string"`;
+    case "number":
+      return `typeof ${value} === "number"`;
+    case "integer":
+      return `Number.isInteger(${value})`;
+    case "boolean":
+      return `typeof ${value} === "boolean"`;
+    case "null":
+      return `${value} === null`;
+    case "array": {
+      const item = `item${depth}`;
+      return schema.items === undefined
+        ? `Array.isArray(${value})`
+        : `(Array.isArray(${value}) && ${value}.every((${item}: unknown) => ${schemaToValidator(
+            schema.items,
+            schemaTypeNames,
+            item,
+            depth + 1
+          )}))`;
+    }
+    case "object":
+      return objectSchemaToValidator(schema, schemaTypeNames, value, depth);
+    default:
+      return "true";
+  }
+}
+
+function objectSchemaToValidator(
+  schema: OpenApiSchema,
+  schemaTypeNames: SchemaTypeNames,
+  value: string,
+  depth: number
+) {
+  if (schema.properties === undefined) {
+    if (typeof schema.additionalProperties !== "object") {
+      return `isObject(${value})`;
+    }
+
+    const propertyValue = `value${depth}`;
+    return `(isObject(${value}) && Object.values(${value}).every((${propertyValue}) => ${schemaToValidator(
+      schema.additionalProperties,
+      schemaTypeNames,
+      propertyValue,
+      depth + 1
+    )}))`;
+  }
+
+  const propertyValidators = Object.entries(schema.properties).map(
+    ([key, propertySchema]) => {
+      const property = `${value}[${JSON.stringify(key)}]`;
+      const propertyValidator = schemaToValidator(
+        propertySchema,
+        schemaTypeNames,
+        property,
+        depth
+      );
+      return schema.required?.includes(key)
+        ? `${property} !== undefined && ${propertyValidator}`
+        : `(${property} === undefined || ${propertyValidator})`;
+    }
+  );
+
+  return `(${[`isObject(${value})`, ...propertyValidators].join(" && ")})`;
+}
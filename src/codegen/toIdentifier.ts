@@ -0,0 +1,31 @@
+/**
+ * Convert any string into a PascalCase identifier, e.g. `user-profile` into
+ * `UserProfile`, used for generated type names.
+ */
+export function toPascalCaseIdentifier(string: string) {
+  const identifier = string
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word !== "")
+    .map((word) => word[0]!.toUpperCase() + word.slice(1))
+    .join("");
+
+  return /^[0-9]/.test(identifier) || identifier === ""
+    ? `_${identifier}`
+    : identifier;
+}
+
+/**
+ * Convert any string into a camelCase identifier, e.g. `get-user` into
+ * `getUser`, used for generated endpoint names.
+ */
+export function toCamelCaseIdentifier(string: string) {
+  const identifier = toPascalCaseIdentifier(string);
+  return identifier[0]!.toLowerCase() + identifier.slice(1);
+}
+
+/**
+ * Generate an object property key, which is only quoted if it is not a valid
+ * identifier.
+ */
+export const toPropertyKey = (key: string) =>
+  /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
@@ -0,0 +1,58 @@
+import { describe, expectTypeOf, it } from "vitest";
+
+import type { OtherFetchConfigBuilder } from "../OtherFetchConfigBuilder";
+
+import { SimplerFetch } from "../SimplerFetch";
+import { defineEndpoints } from "./defineEndpoints";
+
+type User = { id: string };
+type NewUser = { name: string };
+type ApiError = { message: string };
+
+const isUser = (data: unknown): data is User =>
+  typeof data === "object" && data !== null && "id" in data;
+const isNewUser = (data: unknown): data is NewUser =>
+  typeof data === "object" && data !== null && "name" in data;
+const isApiError = (data: unknown): data is ApiError =>
+  typeof data === "object" && data !== null && "message" in data;
+
+const endpoints = defineEndpoints({
+  createUser: {
+    method: "POST",
+    baseUrlIdentifier: "v1",
+    path: "/users",
+    body: isNewUser,
+    response: isUser,
+    exception: isApiError,
+  },
+  deleteUser: {
+    method: "DELETE",
+    baseUrlIdentifier: "v1",
+    path: "/users/:userId",
+  },
+});
+
+const sf = new SimplerFetch({
+  baseUrlConfigs: { v1: { url: "https://example.com/v1" } },
+  endpoints,
+});
+
+describe("EndpointFunction", () => {
+  it("keeps the validated types of the endpoint contract", () => {
+    expectTypeOf(sf.endpoints.createUser)
+      .parameter(0)
+      .toEqualTypeOf<{ readonly body: NewUser }>();
+    expectTypeOf(sf.endpoints.createUser).returns.toEqualTypeOf<
+      OtherFetchConfigBuilder<User, ApiError>
+    >();
+  });
+
+  it("leaves out the types of validators that are not set", () => {
+    expectTypeOf(sf.endpoints.deleteUser)
+      .parameter(0)
+      .toEqualTypeOf<{ readonly params: { userId: string | number } }>();
+    expectTypeOf(sf.endpoints.deleteUser).returns.toEqualTypeOf<
+      OtherFetchConfigBuilder<undefined, undefined>
+    >();
+  });
+});
@@ -0,0 +1,64 @@
+import type { OtherFetchConfigBuilder } from "../OtherFetchConfigBuilder";
+import type {
+  EndpointContract,
+  PathParamNames,
+  PathParams,
+  Validator,
+} from "../types";
+
+/**
+ * Type of the data validated by an optional validator in an endpoint contract,
+ * which is `undefined` if the validator is not set.
+ */
+type ValidatedType<
+  Contract extends EndpointContract,
+  Key extends "exception" | "response"
+> = Contract extends { readonly [K in Key]: Validator<infer T> }
+  ? T
+  : undefined;
+
+/**
+ * Arguments object of an endpoint function, where every property is only
+ * available if the endpoint contract uses it.
+ */
+export type EndpointFunctionArgs<Contract extends EndpointContract> = ([
+  PathParamNames<Contract["path"]>
+] extends [never]
+  ? {}
+  : { readonly params: PathParams<Contract["path"]> }) &
+  (Contract extends { readonly query: Validator<infer Query> }
+    ? {} extends Query
+      ? { readonly query?: Query }
+      : { readonly query: Query }
+    : {}) &
+  (Contract extends { readonly body: Validator<infer Body> }
+    ? { readonly body: Body }
+    : {});
+
+/**
+ * ## `EndpointFunction` Type
+ * Fully typed function generated from an endpoint contract, that runs through
+ * all the builders with the endpoint contract and returns the
+ * `OtherFetchConfigBuilder` for any further configuration of the API call.
+ *
+ * The arguments object is optional if the endpoint has no path params,
+ * required query params or request body.
+ */
+export type EndpointFunction<Contract extends EndpointContract> = (
+  ...args: {} extends EndpointFunctionArgs<Contract>
+    ? [args?: EndpointFunctionArgs<Contract>]
+    : [args: EndpointFunctionArgs<Contract>]
+) => OtherFetchConfigBuilder<
+  ValidatedType<Contract, "response">,
+  ValidatedType<Contract, "exception">
+>;
+
+/**
+ * Object type of all the endpoint functions generated from a record of endpoint
+ * contracts.
+ */
+export type EndpointFunctions<
+  Endpoints extends Record<string, EndpointContract> | undefined
+> = Endpoints extends Record<string, EndpointContract>
+  ? { readonly [Name in keyof Endpoints]: EndpointFunction<Endpoints[Name]> }
+  : {};
@@ -0,0 +1,84 @@
+import type { RequestBodyBuilder } from "../RequestBodyBuilder";
+import type { ResponseParserAndValidatorBuilder } from "../ResponseParserAndValidatorBuilder";
+import type {
+  BaseUrlConfig,
+  EndpointContract,
+  HTTPMethod,
+  QueryParams,
+} from "../types";
+import type { UrlBuilder } from "../UrlBuilder";
+
+import { SimplerFetchError } from "../errors";
+
+/**
+ * Create the endpoint functions for all the endpoint contracts, which run
+ * through all the builders with their endpoint contract.
+ *
+ * Throws `SimplerFetchError` if any endpoint contract uses a base URL that is
+ * not saved in `baseUrlConfigs`, so that it fails on instance creation instead
+ * of on first use.
+ */
+export function createEndpointFunctions(
+  endpoints: Record<string, EndpointContract>,
+  baseUrlConfigs: Record<string, BaseUrlConfig> | undefined,
+  chainToUrlBuilder: (method: HTTPMethod) => UrlBuilder<string, HTTPMethod>
+) {
+  return Object.fromEntries(
+    Object.entries(endpoints).map(([name, contract]) => {
+      if (baseUrlConfigs?.[contract.baseUrlIdentifier] === undefined) {
+        throw new SimplerFetchError(
+          `Endpoint '${name}' uses base URL '${contract.baseUrlIdentifier}' which is not in 'baseUrlConfigs'`
+        );
+      }
+
+      const endpointFunction = (
+        args: {
+          params?: Record<string, string | number>;
+          query?: QueryParams;
+          body?: unknown;
+        } = {}
+      ) => {
+        // Type cast needed since the path params type can only be inferred
+        // from path template string literals, while the endpoint contract's
+        // path template is only known to be a string here.
+        const builder = (
+          chainToUrlBuilder(contract.method).useSavedBaseUrl(
+            contract.baseUrlIdentifier
+          ) as unknown as {
+            pathWithQueryParams(
+              path: string,
+              queryParams?: QueryParams,
+              pathParams?: Record<string, string | number>
+            ): RequestBodyBuilder | ResponseParserAndValidatorBuilder;
+          }
+        ).pathWithQueryParams(contract.path, args.query, args.params);
+
+        let responseParserBuilder: ResponseParserAndValidatorBuilder;
+        if (contract.method === "GET" || contract.method === "HEAD") {
+          responseParserBuilder = builder as ResponseParserAndValidatorBuilder;
+        } else if (contract.body === undefined) {
+          responseParserBuilder = (
+            builder as RequestBodyBuilder
+          ).noRequestBody();
+        } else {
+          responseParserBuilder = (
+            builder as RequestBodyBuilder
+          ).setRequestBodyWithJsonData(args.body);
+        }
+
+        const responseExceptionParserBuilder =
+          contract.response === undefined
+            ? responseParserBuilder.dontParseResponse()
+            : responseParserBuilder.parseResponseAsJson(contract.response);
+
+        return contract.exception === undefined
+          ? responseExceptionParserBuilder.dontParseResponseException()
+          : responseExceptionParserBuilder.parseResponseExceptionAsJson(
+              contract.exception
+            );
+      };
+
+      return [name, endpointFunction];
+    })
+  );
+}
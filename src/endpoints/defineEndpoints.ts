@@ -0,0 +1,25 @@
+import type { EndpointContract } from "../types";
+
+/**
+ * Identity function to declare endpoint contracts outside of the `SimplerFetch`
+ * constructor, e.g. in a module shared with server code, while keeping the
+ * literal types of the path templates and HTTP methods needed for type
+ * inference.
+ *
+ * @example
+ * ```typescript
+ * export const endpoints = defineEndpoints({
+ *   getUser: {
+ *     method: "GET",
+ *     baseUrlIdentifier: "v1",
+ *     path: "/users/:userId",
+ *     response: isUser,
+ *   },
+ * });
+ * ```
+ */
+export const defineEndpoints = <
+  const Endpoints extends Record<string, EndpointContract>
+>(
+  endpoints: Endpoints
+) => endpoints;
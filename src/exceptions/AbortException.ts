@@ -0,0 +1,48 @@
+import { SimplerFetchException } from "./SimplerFetchException";
+
+/**
+ * Custom named exception class so that library users can check for this failure
+ * mode with the `instanceof` operator.
+ *
+ * This exception is used when the API call is cancelled with the external
+ * `AbortSignal` passed in with the `useAbortSignal` method, e.g. when the user
+ * navigates away from the page that made the API call.
+ *
+ * ## Why not just use the abort reason?
+ * `AbortSignal`s can be aborted with any value as the reason, and when aborted
+ * without a reason, the default reason is a `DOMException` which is also used
+ * for many other failure modes. Wrapping it with this exception type lets
+ * library users tell apart cancellations from other failure modes like
+ * `TimeoutException` using the `instanceof` operator. The original abort
+ * reason is kept on the `reason` property of the `AbortException` instance.
+ *
+ * Example
+ * ```typescript
+ * const abortController = new AbortController();
+ *
+ * const [err, res] = await sf
+ *   .GET()
+ *   .useSavedBaseUrl("v1")
+ *   .path("/users")
+ *   .parseResponseAsJson()
+ *   .parseResponseExceptionAsJson()
+ *   .useAbortSignal(abortController.signal)
+ *   .finishConfig()
+ *   .runSafely();
+ *
+ * if (err instanceof AbortException) {
+ *   console.log("API call cancelled because", err.reason);
+ * }
+ * ```
+ */
+export class AbortException extends SimplerFetchException {
+  constructor(
+    /**
+     * The reason that the `AbortSignal` was aborted with.
+     */
+    public readonly reason: unknown
+  ) {
+    // Use the abort reason's message if it is an Error
+    super(reason instanceof Error ? reason.message : "API call aborted");
+  }
+}
@@ -0,0 +1,27 @@
+import { SimplerFetchException } from "./SimplerFetchException";
+
+/**
+ * Custom named exception class so that library users can check for this failure
+ * mode with the `instanceof` operator.
+ *
+ * This exception will be thrown without making the API call when the circuit
+ * breaker of the base URL is open, i.e. when the base URL has failed too many
+ * times recently, so that API calls fail fast instead of waiting on a base URL
+ * that is down.
+ */
+export class CircuitOpenException extends SimplerFetchException {
+  constructor(
+    /**
+     * Identifier of the base URL whose circuit breaker is open.
+     */
+    public readonly baseUrlIdentifier: string,
+
+    /**
+     * Number of milliseconds until the circuit breaker lets a probe API call
+     * through to check if the base URL has recovered.
+     */
+    public readonly retryAfterInMilliseconds: number
+  ) {
+    super(`Circuit breaker for base URL '${baseUrlIdentifier}' is open`);
+  }
+}
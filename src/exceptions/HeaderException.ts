@@ -1,3 +1,5 @@
+import { SimplerFetchException } from "./SimplerFetchException";
+
 /**
  * Custom named exception class so that library users can check for this failure
  * mode with the `instanceof` operator.
@@ -38,7 +40,7 @@
  * }
  * ```
  */
-export class HeaderException extends Error {
+export class HeaderException extends SimplerFetchException {
   constructor(
     /**
      * The original exception thrown during the header generation process. This
@@ -0,0 +1,76 @@
+import type { ApiResponse, HTTPMethod } from "../types";
+
+import { SimplerFetchException } from "./SimplerFetchException";
+
+/**
+ * Custom named exception class so that library users can check for this failure
+ * mode with the `instanceof` operator.
+ *
+ * This exception is only thrown by the `runAndThrowOnNonOk` and
+ * `runSafelyAndExpectOk` methods when the API call's response does not have a
+ * 2xx status code, after the response exception is parsed and validated, so
+ * that library users do not have to check `ok` on every response. The other run
+ * methods return these responses with `ok` set to false instead.
+ *
+ * Example
+ * ```typescript
+ * try {
+ *   const { data } = await sf
+ *     .GET()
+ *     .useSavedBaseUrl("v1")
+ *     .path("/users/:userId", { userId })
+ *     .parseResponseAsJson<User>()
+ *     .parseResponseExceptionAsJson<{ message: string }>()
+ *     .finishConfig()
+ *     .runAndThrowOnNonOk();
+ * } catch (err) {
+ *   if (err instanceof HttpException && err.status === 404) {
+ *     console.log("User not found", err.data);
+ *   }
+ * }
+ * ```
+ */
+export class HttpException<
+  ResponseExceptionDataType = unknown
+> extends SimplerFetchException {
+  /**
+   * The response's status code.
+   */
+  public readonly status: number;
+
+  /**
+   * The response's headers.
+   */
+  public readonly headers: Headers;
+
+  /**
+   * The parsed response exception data, which is validated if a response
+   * exception validator is used.
+   */
+  public readonly data: ResponseExceptionDataType;
+
+  constructor(
+    /**
+     * The API call's HTTP method.
+     */
+    public readonly method: HTTPMethod,
+
+    /**
+     * The API call's full URL, including query params.
+     */
+    public readonly url: string,
+
+    /**
+     * The full `ApiResponse` of the API call, as an escape hatch to access the
+     * other values like the raw `Response`.
+     */
+    public readonly response: ApiResponse<ResponseExceptionDataType>
+  ) {
+    super(`${method} ${url} failed with status ${response.status}`);
+
+    this.status = response.status;
+    this.headers = response.headers;
+    this.data = response.data;
+    this.traceContext = response.traceContext;
+  }
+}
@@ -0,0 +1,15 @@
+import type { RequestTraceContext } from "../types";
+
+/**
+ * Base class of all the library's exception classes, so that library users can
+ * check if an exception came from this library with the `instanceof` operator.
+ */
+export class SimplerFetchException extends Error {
+  /**
+   * Trace context of the API call that failed with this exception, which is
+   * only set if trace context propagation is enabled with the `traceContext`
+   * option of `SimplerFetch`. Use this to find the API call in the traces and
+   * logs of the API server.
+   */
+  traceContext?: RequestTraceContext;
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+
+import { TimeoutException } from "./TimeoutException";
+
+describe("TimeoutException", () => {
+  it("keeps the phase and timeout value", () => {
+    const exception = new TimeoutException("bodyRead", 100);
+
+    expect(exception.phase).toBe("bodyRead");
+    expect(exception.timeoutInMilliseconds).toBe(100);
+    expect(exception.message).toBe("100ms bodyRead time out exceeded");
+  });
+
+  it("can still be constructed with just a message", () => {
+    const exception = new TimeoutException("Timed out");
+
+    expect(exception).toBeInstanceOf(TimeoutException);
+    expect(exception.message).toBe("Timed out");
+    expect(exception.phase).toBeUndefined();
+    expect(exception.timeoutInMilliseconds).toBeUndefined();
+  });
+});
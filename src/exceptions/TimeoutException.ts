@@ -1,8 +1,45 @@
+import type { TimeoutPhase } from "../types";
+
+import { SimplerFetchException } from "./SimplerFetchException";
+
 /**
  * Custom named exception class so that library users can check for this failure
  * mode with the `instanceof` operator.
  *
  * This exception will be thrown when there is a custom timeout value set, and
- * the API did not respond before the time.
+ * the API did not respond before the time. The `phase` property can be used to
+ * check which phase of the API call timed out.
+ *
+ * This can still be constructed with just an optional message like before the
+ * timeout phases were added, e.g. to mock timeouts in tests, in which case the
+ * `phase` and `timeoutInMilliseconds` properties are left undefined.
  */
-export class TimeoutException extends Error {}
+export class TimeoutException extends SimplerFetchException {
+  /**
+   * The phase of the API call that timed out, which is always set for
+   * exceptions thrown by the library.
+   */
+  public readonly phase?: TimeoutPhase;
+
+  /**
+   * The timeout value of the phase that timed out, which is always set for
+   * exceptions thrown by the library.
+   */
+  public readonly timeoutInMilliseconds?: number;
+
+  constructor(message?: string);
+  constructor(phase: TimeoutPhase, timeoutInMilliseconds: number);
+  constructor(phaseOrMessage?: string, timeoutInMilliseconds?: number) {
+    if (timeoutInMilliseconds === undefined) {
+      super(phaseOrMessage);
+      return;
+    }
+
+    super(`${timeoutInMilliseconds}ms ${phaseOrMessage} time out exceeded`);
+
+    // Type cast is safe since the overloads only allow a timeout value to be
+    // passed together with a phase.
+    this.phase = phaseOrMessage as TimeoutPhase;
+    this.timeoutInMilliseconds = timeoutInMilliseconds;
+  }
+}
@@ -1,3 +1,5 @@
+import { SimplerFetchException } from "./SimplerFetchException";
+
 /**
  * Custom named exception class so that library users can check for this failure
  * mode with the `instanceof` operator.
@@ -28,4 +30,22 @@
  * }
  * ```
  */
-export class ValidationException extends Error {}
+export class ValidationException extends SimplerFetchException {
+  constructor(
+    message?: string,
+
+    /**
+     * The 1-based line number of the item that failed validation, which is
+     * only set for streaming response parsers like `parseResponseAsNdjson`.
+     */
+    public readonly lineNumber?: number,
+
+    /**
+     * Set the `cause` to the error that the item failed with, e.g. the
+     * `SyntaxError` of a line that is not valid JSON.
+     */
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+  }
+}
@@ -2,6 +2,10 @@
  * Barrel file for all the exceptions.
  */
 
+export * from "./AbortException";
+export * from "./CircuitOpenException";
 export * from "./HeaderException";
+export * from "./HttpException";
+export * from "./SimplerFetchException";
 export * from "./TimeoutException";
 export * from "./ValidationException";
@@ -1,4 +1,24 @@
-import type { Header, HTTPMethod, Validator, ResponseParser } from "../types";
+import type { CircuitBreaker } from "../circuit-breaker/CircuitBreaker";
+import type { RateLimiter } from "../rate-limit/RateLimiter";
+import type {
+  AuthProvider,
+  CacheMode,
+  PhaseTimeouts,
+  Priority,
+  ProgressHandler,
+  FetchFunction,
+  Header,
+  HTTPMethod,
+  Middleware,
+  QueryParams,
+  QuerySerializationOptions,
+  Validator,
+  ResponseCacheStorage,
+  ResponseParser,
+  RetryPolicy,
+  TelemetryHandler,
+  TraceContextOptions,
+} from "../types";
 
 /**
  * Fetch config object type that will be passed from one builder to the next, so
@@ -16,15 +36,34 @@ export type ChainableFetchConfig = {
    */
   url?: string;
 
+  /**
+   * Identifier of the saved base URL used, which is undefined if a custom URL
+   * is used with `useUrl` instead.
+   */
+  baseUrlIdentifier?: string;
+
   /**
    * Path string that will be combined with the base URL later
    */
   path?: string;
 
+  /**
+   * The path template used to generate `path`, before the path params are
+   * filled in, e.g. `/users/:userId`. This stays the same across API calls to
+   * the same endpoint, so it can be used as a stable route name for things like
+   * logging and metrics.
+   */
+  pathTemplate?: string;
+
   /**
    * URL Query Params
    */
-  queryParams?: Record<string, string>;
+  queryParams?: QueryParams;
+
+  /**
+   * Options for how `queryParams` is serialized into the URL.
+   */
+  querySerialization?: QuerySerializationOptions;
 
   /**
    * API call's HTTP Method
@@ -57,15 +96,124 @@ export type ChainableFetchConfig = {
   headers: Array<Header>;
 
   /**
-   * Optional `AbortController` used for custom timeouts.
+   * Middlewares to run every API call through, ordered from the outermost to
+   * the innermost middleware.
+   */
+  middlewares: Array<Middleware>;
+
+  /**
+   * Telemetry handlers to emit the lifecycle events of the API call to.
+   */
+  telemetryHandlers: ReadonlyArray<TelemetryHandler>;
+
+  /**
+   * Optional trace context propagation options, trace context headers are not
+   * sent if this is not set.
+   */
+  traceContext?: TraceContextOptions;
+
+  /**
+   * Optional external `AbortSignal` used to cancel the API call.
    */
-  abortController?: AbortController;
+  abortSignal?: AbortSignal;
 
   /**
    * Optional timeout milliseconds for custom timeouts.
    */
   timeoutInMilliseconds?: number;
 
+  /**
+   * Optional timeouts for the other phases of the API call.
+   */
+  phaseTimeouts?: PhaseTimeouts;
+
+  /**
+   * Optional callback to report the request body upload progress.
+   */
+  uploadProgressHandler?: ProgressHandler;
+
+  /**
+   * Optional callback to report the response body download progress.
+   */
+  downloadProgressHandler?: ProgressHandler;
+
+  /**
+   * Optional retry policy, API calls will not be retried if this is not set.
+   */
+  retryPolicy?: RetryPolicy;
+
+  /**
+   * Optional custom `fetch` function to use instead of the global `fetch`.
+   */
+  fetch?: FetchFunction;
+
+  /**
+   * Optional auth provider of the base URL used to generate the auth headers,
+   * and to refresh the credentials and replay the API call on a `401`.
+   */
+  authProvider?: AuthProvider;
+
+  /**
+   * Deduplicate concurrent identical API calls if set to true.
+   */
+  dedupe?: boolean;
+
+  /**
+   * Set to true by the streaming response parsers, since streaming responses
+   * can only be read once and cannot be deduplicated or cached.
+   */
+  isStreamingResponse?: boolean;
+
+  /**
+   * Map of in-flight API calls of the `SimplerFetch` instance used for request
+   * deduplication, keyed by the request identity.
+   */
+  inflightRequests: Map<string, Promise<unknown>>;
+
+  /**
+   * Circuit breakers of the `SimplerFetch` instance, keyed by the identifier of
+   * the base URLs that have the circuit breaker enabled.
+   */
+  circuitBreakers: Map<string, CircuitBreaker>;
+
+  /**
+   * Circuit breaker of the base URL used, if it is enabled.
+   */
+  circuitBreaker?: CircuitBreaker;
+
+  /**
+   * Rate limiters of the `SimplerFetch` instance, keyed by the identifier of
+   * the base URLs that have the rate limiter enabled.
+   */
+  rateLimiters: Map<string, RateLimiter>;
+
+  /**
+   * Rate limiter of the base URL used, if it is enabled.
+   */
+  rateLimiter?: RateLimiter;
+
+  /**
+   * Request scheduler of the `SimplerFetch` instance used to limit the
+   * concurrency of all its API calls, if it is enabled.
+   */
+  scheduler?: RateLimiter;
+
+  /**
+   * Optional priority of the API call, which defaults to "normal".
+   */
+  priority?: Priority;
+
+  /**
+   * Storage for the response cache of the `SimplerFetch` instance, which is
+   * undefined if the response cache is not enabled.
+   */
+  cacheStorage?: ResponseCacheStorage;
+
+  /**
+   * Optional cache mode to override how the response cache is used.
+   */
+  cacheMode?: CacheMode;
+
   /**
    * The `body` field will be used for the `body` property of `fetch` call.
    *
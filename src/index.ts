@@ -1,18 +1,20 @@
-/* Check once if fetch exists on library load */
-import { SimplerFetchError } from "./errors";
-if (fetch == null) {
-  throw new SimplerFetchError(
-    "[simpler-fetch] 'fetch' is not defined in global scope please polyfill it first!"
-  );
-}
-
 /**
  * Barrel file to export everything a library user can access.
  */
 
+export * from "./auth/TokenAuthProvider";
+export * from "./cache/LruCacheStorage";
+export * from "./endpoints/defineEndpoints";
+export type * from "./endpoints/EndpointFunction";
 export * from "./errors";
 export * from "./exceptions";
+export * from "./pagination/cursorPagination";
+export * from "./pagination/linkHeaderPagination";
+export * from "./pagination/offsetPagination";
+export * from "./pagination/pageNumberPagination";
 export * from "./SimplerFetch";
+export * from "./telemetry/createOpenTelemetryHandler";
 export type * from "./types";
 export * from "./utils/jsonParser";
+export * from "./utils/openApiPaths";
 export * from "./utils/zodToValidator";
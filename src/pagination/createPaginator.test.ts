@@ -0,0 +1,201 @@
+import { describe, expect, it } from "vitest";
+
+import { HttpException } from "../exceptions";
+import { SimplerFetch } from "../SimplerFetch";
+import { createMockTransport } from "../testing";
+import { cursorPagination } from "./cursorPagination";
+import { linkHeaderPagination } from "./linkHeaderPagination";
+import { offsetPagination } from "./offsetPagination";
+import { pageNumberPagination } from "./pageNumberPagination";
+
+async function collect<T>(iterable: AsyncIterable<T>) {
+  const items: Array<T> = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+function setup() {
+  const mock = createMockTransport<"v1">();
+  const sf = new SimplerFetch({
+    baseUrlConfigs: { v1: { url: "https://example.com/v1" } },
+    fetch: mock.fetch,
+  });
+
+  const listUsers = () =>
+    sf
+      .GET()
+      .useSavedBaseUrl("v1")
+      .pathWithQueryParams("/users", { status: "active" })
+      .parseResponseAsJson<Array<number>>()
+      .parseResponseExceptionAsJson<{ message: string }>()
+      .finishConfig();
+
+  return { mock, listUsers };
+}
+
+describe("paginate", () => {
+  it("follows Link header URLs through the base URL's routes", async () => {
+    const { mock, listUsers } = setup();
+
+    mock.on(
+      "GET /users",
+      ({ url }) => {
+        const page = Number(new URL(url).searchParams.get("page") ?? 1);
+        return {
+          json: [page],
+          headers: new Headers(
+            page < 3 ? { Link: `</v1/users?page=${page + 1}>; rel="next"` } : {}
+          ),
+        };
+      },
+      { baseUrl: "v1" }
+    );
+
+    const items = await collect(
+      listUsers().paginate(linkHeaderPagination()).items()
+    );
+
+    expect(items).toEqual([1, 2, 3]);
+    expect(mock.calls.map(({ url }) => url)).toEqual([
+      "https://example.com/v1/users?status=active",
+      "https://example.com/v1/users?page=2",
+      "https://example.com/v1/users?page=3",
+    ]);
+    expect(
+      mock.calls.map(({ baseUrlIdentifier }) => baseUrlIdentifier)
+    ).toEqual(["v1", "v1", "v1"]);
+  });
+
+  it("uses next page URLs outside of the base URL as custom URLs", async () => {
+    const { mock, listUsers } = setup();
+
+    mock.on(
+      "GET /users",
+      () => ({
+        json: [1],
+        headers: {
+          Link: '<https://other.example.com/users?page=2>; rel="next"',
+        },
+      }),
+      { times: 1 }
+    );
+    mock.on("GET /users", () => ({ json: [2] }));
+
+    const items = await collect(
+      listUsers().paginate(linkHeaderPagination()).items()
+    );
+
+    expect(items).toEqual([1, 2]);
+    expect(mock.calls[1]?.url).toBe("https://other.example.com/users?page=2");
+    expect(mock.calls[1]?.baseUrlIdentifier).toBeUndefined();
+  });
+
+  it("sends the cursor of the previous page", async () => {
+    const { mock, listUsers } = setup();
+
+    mock.on("GET /users", ({ url }) => {
+      const cursor = new URL(url).searchParams.get("cursor");
+      return { json: cursor === null ? [1, 2] : [3] };
+    });
+
+    const items = await collect(
+      listUsers()
+        .paginate(
+          cursorPagination({
+            getNextCursor: (data: Array<number>) =>
+              data.length > 1 ? "next" : null,
+          })
+        )
+        .items()
+    );
+
+    expect(items).toEqual([1, 2, 3]);
+    expect(mock.calls[1]?.url).toBe(
+      "https://example.com/v1/users?status=active&cursor=next"
+    );
+  });
+
+  it("stops offset pagination at the first page with less than limit items", async () => {
+    const { mock, listUsers } = setup();
+
+    mock.on("GET /users", ({ url }) => {
+      const offset = Number(new URL(url).searchParams.get("offset"));
+      return { json: offset < 4 ? [offset, offset + 1] : [offset] };
+    });
+
+    const items = await collect(
+      listUsers()
+        .paginate(offsetPagination({ limit: 2 }))
+        .items()
+    );
+
+    expect(items).toEqual([0, 1, 2, 3, 4]);
+    expect(mock.calls.map(({ url }) => new URL(url).search)).toEqual([
+      "?status=active&offset=0&limit=2",
+      "?status=active&offset=2&limit=2",
+      "?status=active&offset=4&limit=2",
+    ]);
+  });
+
+  it("stops page number pagination at the first empty page", async () => {
+    const { mock, listUsers } = setup();
+
+    mock.on("GET /users", ({ url }) => {
+      const page = Number(new URL(url).searchParams.get("page"));
+      return { json: page <= 2 ? [page] : [] };
+    });
+
+    const items = await collect(
+      listUsers().paginate(pageNumberPagination()).items()
+    );
+
+    expect(items).toEqual([1, 2]);
+    expect(mock.calls).toHaveLength(3);
+  });
+
+  it("limits the number of pages and items", async () => {
+    const { mock, listUsers } = setup();
+
+    mock.on("GET /users", () => ({ json: [1, 2] }));
+
+    const paginator = listUsers().paginate(pageNumberPagination(), {
+      maxPages: 2,
+      maxItems: 3,
+    });
+
+    expect(await collect(paginator.items())).toEqual([1, 2, 1]);
+    expect(await collect(paginator.pages())).toHaveLength(2);
+  });
+
+  it("throws a HttpException from items() for a non ok page", async () => {
+    const { mock, listUsers } = setup();
+
+    mock.on("GET /users", () => ({ json: [1] }), { times: 1 });
+    mock.on("GET /users", () => ({ status: 500, json: { message: "down" } }));
+
+    const error = await collect(
+      listUsers().paginate(pageNumberPagination()).items()
+    ).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect((error as HttpException).data).toEqual({ message: "down" });
+  });
+
+  it("yields a non ok page as the last page from pages()", async () => {
+    const { mock, listUsers } = setup();
+
+    mock.on("GET /users", () => ({ json: [1] }), { times: 1 });
+    mock.on("GET /users", () => ({ status: 500, json: { message: "down" } }));
+
+    const pages = await collect(
+      listUsers().paginate(pageNumberPagination()).pages()
+    );
+
+    expect(pages.map(({ ok, status }) => ({ ok, status }))).toEqual([
+      { ok: true, status: 200 },
+      { ok: false, status: 500 },
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import type { Fetch } from "../Fetch";
+import type {
+  PaginationNextPage,
+  PaginationOptions,
+  PaginationStrategy,
+  Paginator,
+} from "../types";
+
+import { AbortException } from "../exceptions";
+
+/**
+ * Create the `Paginator` returned by `Fetch.paginate`, where
+ * `createPageFetch` creates the `Fetch` instance for the first page if
+ * `nextPage` is undefined, or the next page of the page with the given URL
+ * otherwise.
+ *
+ * The iteration ends without an exception once the API call is cancelled with
+ * its abort signal, including items of an already fetched page.
+ *
+ * `pages()` yields a non ok response as the last page since the next page
+ * cannot be worked out without the response data, while `items()` throws a
+ * `HttpException` for it like `runAndThrowOnNonOk`, so that a failed page is
+ * not mistaken for the end of the items.
+ */
+export function createPaginator<
+  ResponseDataType,
+  ResponseExceptionDataType,
+  Item
+>(
+  createPageFetch: (
+    nextPage: PaginationNextPage | undefined,
+    currentUrl: string
+  ) => Fetch<ResponseDataType, ResponseExceptionDataType>,
+  strategy: PaginationStrategy<ResponseDataType, Item>,
+  options: PaginationOptions<ResponseDataType, Item>,
+  abortSignal: AbortSignal | undefined
+): Paginator<ResponseDataType, ResponseExceptionDataType, Item> {
+  const getItems =
+    options.getItems ??
+    ((data: ResponseDataType) =>
+      Array.isArray(data) ? (data as ReadonlyArray<Item>) : []);
+
+  const maxPages = options.maxPages ?? Infinity;
+  const maxItems = options.maxItems ?? Infinity;
+
+  // Pages are yielded together with their items so that `items()` does not
+  // have to extract the items of every page again.
+  async function* fetchPages(throwOnNonOk: boolean) {
+    let nextPage: PaginationNextPage | undefined;
+    let url = "";
+    let itemCount = 0;
+
+    for (let pageNumber = 1; ; pageNumber++) {
+      const pageFetch = createPageFetch(nextPage, url);
+      url = pageFetch.getUrl();
+
+      let response: Awaited<
+        ReturnType<typeof pageFetch.runAndThrowOnException>
+      >;
+      try {
+        response = throwOnNonOk
+          ? await pageFetch.runAndThrowOnNonOk()
+          : await pageFetch.runAndThrowOnException();
+      } catch (error) {
+        if (error instanceof AbortException) {
+          return;
+        }
+        throw error;
+      }
+
+      if (!response.ok) {
+        yield { response, items: [] as ReadonlyArray<Item> };
+        return;
+      }
+
+      const items = getItems(response.data);
+      itemCount += items.length;
+
+      yield { response, items };
+
+      if (pageNumber >= maxPages || itemCount >= maxItems) {
+        return;
+      }
+
+      nextPage = strategy.getNextPage({
+        data: response.data,
+        items,
+        headers: response.headers,
+        url,
+        pageNumber,
+      });
+
+      if (nextPage === undefined) {
+        return;
+      }
+    }
+  }
+
+  return {
+    async *pages() {
+      for await (const { response } of fetchPages(false)) {
+        if (abortSignal?.aborted) {
+          return;
+        }
+        yield response;
+      }
+    },
+
+    async *items() {
+      let itemCount = 0;
+
+      for await (const { items } of fetchPages(true)) {
+        for (const item of items) {
+          if (itemCount >= maxItems || abortSignal?.aborted) {
+            return;
+          }
+          itemCount++;
+          yield item;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import type { PaginationStrategy } from "../types";
+
+/**
+ * Pagination strategy for APIs that return the cursor of the next page in the
+ * response data, which is sent back with the `cursorParam` query param. The
+ * last page is the page without a next cursor.
+ */
+export const cursorPagination = <ResponseDataType>({
+  getNextCursor,
+  cursorParam = "cursor",
+}: {
+  /**
+   * Get the cursor of the next page from a page's response data, where
+   * `null`, `undefined` or an empty string means that there are no more pages.
+   */
+  getNextCursor: (data: ResponseDataType) => string | number | null | undefined;
+
+  /**
+   * Name of the cursor query param, defaults to "cursor".
+   */
+  cursorParam?: string;
+}): PaginationStrategy<ResponseDataType> => ({
+  getNextPage(page) {
+    const cursor = getNextCursor(page.data);
+    return cursor === null || cursor === undefined || cursor === ""
+      ? undefined
+      : { queryParams: { [cursorParam]: cursor } };
+  },
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+
+import { linkHeaderPagination } from "./linkHeaderPagination";
+
+const getNextPage = (link?: string) =>
+  linkHeaderPagination().getNextPage({
+    data: [],
+    items: [],
+    headers: new Headers(link === undefined ? {} : { Link: link }),
+    url: "https://example.com/users",
+    pageNumber: 1,
+  });
+
+describe("linkHeaderPagination", () => {
+  it("returns the URL of the next link", () => {
+    expect(
+      getNextPage(
+        '<https://example.com/users?page=1>; rel="prev", <https://example.com/users?page=3>; rel="next"'
+      )
+    ).toEqual({ url: "https://example.com/users?page=3" });
+  });
+
+  it("supports unquoted and multiple relation types", () => {
+    expect(getNextPage("</users?page=2>; rel=next")).toEqual({
+      url: "/users?page=2",
+    });
+    expect(
+      getNextPage('</users?page=2>; title="a, b; c"; rel="last NEXT"')
+    ).toEqual({ url: "/users?page=2" });
+  });
+
+  it("returns undefined without a next link", () => {
+    expect(getNextPage()).toBeUndefined();
+    expect(getNextPage('</users?page=1>; rel="prev"')).toBeUndefined();
+  });
+});
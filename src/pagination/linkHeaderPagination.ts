@@ -0,0 +1,32 @@
+import type { PaginationStrategy } from "../types";
+
+/**
+ * Pagination strategy for APIs that link to the next page with the RFC 8288
+ * `Link` header, e.g. `Link: <https://example.com/items?page=2>; rel="next"`.
+ * The last page is the page without a `next` link.
+ */
+export const linkHeaderPagination = (): PaginationStrategy => ({
+  getNextPage(page) {
+    const linkHeader = page.headers.get("Link");
+    if (linkHeader === null) {
+      return undefined;
+    }
+
+    // Every link is a URI reference in angle brackets followed by its params,
+    // where quoted param values can contain any character except quotes.
+    for (const [, url, params] of linkHeader.matchAll(
+      /<([^>]*)>((?:\s*;\s*(?:[^;,"]|"[^"]*")+)*)/g
+    )) {
+      const rel = /;\s*rel\s*=\s*(?:"([^"]*)"|([^\s;,]+))/i.exec(
+        params as string
+      );
+
+      // `rel` can have multiple space separated relation types
+      if ((rel?.[1] ?? rel?.[2])?.toLowerCase().split(/\s+/).includes("next")) {
+        return { url: url as string };
+      }
+    }
+
+    return undefined;
+  },
+});
@@ -0,0 +1,44 @@
+import type { PaginationStrategy } from "../types";
+
+/**
+ * Pagination strategy for APIs that paginate with offset and limit query
+ * params. The last page is the page with less than `limit` items.
+ */
+export const offsetPagination = ({
+  limit,
+  offsetParam = "offset",
+  limitParam = "limit",
+  initialOffset = 0,
+}: {
+  /**
+   * Number of items to fetch per page.
+   */
+  limit: number;
+
+  /**
+   * Name of the offset query param, defaults to "offset".
+   */
+  offsetParam?: string;
+
+  /**
+   * Name of the limit query param, defaults to "limit".
+   */
+  limitParam?: string;
+
+  /**
+   * Offset of the first page, defaults to 0.
+   */
+  initialOffset?: number;
+}): PaginationStrategy => ({
+  initialQueryParams: { [offsetParam]: initialOffset, [limitParam]: limit },
+
+  getNextPage: (page) =>
+    page.items.length < limit
+      ? undefined
+      : {
+          queryParams: {
+            [offsetParam]: initialOffset + page.pageNumber * limit,
+            [limitParam]: limit,
+          },
+        },
+});
@@ -0,0 +1,52 @@
+import type { PaginationStrategy } from "../types";
+
+/**
+ * Pagination strategy for APIs that paginate with a page number query param.
+ * The last page is the page without any items, or the page with less than
+ * `pageSize` items if it is set.
+ */
+export const pageNumberPagination = ({
+  pageParam = "page",
+  initialPage = 1,
+  pageSize,
+  pageSizeParam = "pageSize",
+}: {
+  /**
+   * Name of the page number query param, defaults to "page".
+   */
+  pageParam?: string;
+
+  /**
+   * Page number of the first page, defaults to 1.
+   */
+  initialPage?: number;
+
+  /**
+   * Optional number of items to fetch per page, which is sent with the
+   * `pageSizeParam` query param.
+   */
+  pageSize?: number;
+
+  /**
+   * Name of the page size query param, defaults to "pageSize".
+   */
+  pageSizeParam?: string;
+} = {}): PaginationStrategy => {
+  const pageSizeQueryParams =
+    pageSize === undefined ? {} : { [pageSizeParam]: pageSize };
+
+  return {
+    initialQueryParams: { [pageParam]: initialPage, ...pageSizeQueryParams },
+
+    getNextPage: (page) =>
+      page.items.length === 0 ||
+      (pageSize !== undefined && page.items.length < pageSize)
+        ? undefined
+        : {
+            queryParams: {
+              [pageParam]: initialPage + page.pageNumber,
+              ...pageSizeQueryParams,
+            },
+          },
+  };
+};
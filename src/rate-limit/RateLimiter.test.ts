@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { Priority } from "../types";
+
+import { RateLimiter } from "./RateLimiter";
+
+/**
+ * Acquire a slot for every priority in order, and record the order in which
+ * the API calls get their turn together with their release functions.
+ */
+function acquireAll(
+  rateLimiter: RateLimiter,
+  priorities: Array<Priority>,
+  signal?: AbortSignal
+) {
+  const started: Array<string> = [];
+  const releases: Array<() => void> = [];
+
+  const promises = priorities.map((priority, i) =>
+    rateLimiter.acquire(signal, priority).then((release) => {
+      started.push(`${priority}${i}`);
+      releases.push(release);
+    })
+  );
+
+  return { started, releases, promises };
+}
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("limits the number of concurrent API calls", async () => {
+    const rateLimiter = new RateLimiter({ maxConcurrency: 2 });
+    const { started, releases } = acquireAll(rateLimiter, [
+      "normal",
+      "normal",
+      "normal",
+    ]);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(["normal0", "normal1"]);
+
+    // Releasing more than once only frees a single slot
+    releases[0]?.();
+    releases[0]?.();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(["normal0", "normal1", "normal2"]);
+  });
+
+  it("lets queued API calls through by priority, then in first in first out order", async () => {
+    const rateLimiter = new RateLimiter({ maxConcurrency: 1 });
+    const { started, releases } = acquireAll(rateLimiter, [
+      "normal",
+      "low",
+      "normal",
+      "high",
+      "low",
+      "high",
+    ]);
+
+    for (let i = 0; i < 6; i++) {
+      await vi.advanceTimersByTimeAsync(0);
+      releases[i]?.();
+    }
+
+    expect(started).toEqual([
+      "normal0",
+      "high3",
+      "high5",
+      "normal2",
+      "low1",
+      "low4",
+    ]);
+  });
+
+  it("spreads API calls out with the token bucket", async () => {
+    const rateLimiter = new RateLimiter({
+      requestsPerInterval: 2,
+      intervalInMilliseconds: 1000,
+    });
+    const { started } = acquireAll(rateLimiter, [
+      "normal",
+      "normal",
+      "normal",
+      "normal",
+    ]);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(started).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toHaveLength(3);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toHaveLength(4);
+  });
+
+  it("rejects and leaves the queue once aborted while waiting", async () => {
+    const rateLimiter = new RateLimiter({ maxConcurrency: 1 });
+    const abortController = new AbortController();
+
+    const { releases } = acquireAll(rateLimiter, ["normal"]);
+    const queued = rateLimiter.acquire(abortController.signal);
+    const next = acquireAll(rateLimiter, ["normal"]);
+
+    abortController.abort("cancelled");
+    await expect(queued).rejects.toBe("cancelled");
+
+    await vi.advanceTimersByTimeAsync(0);
+    releases[0]?.();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(next.started).toEqual(["normal0"]);
+  });
+
+  it("rejects right away if already aborted", async () => {
+    const rateLimiter = new RateLimiter({});
+
+    await expect(
+      rateLimiter.acquire(AbortSignal.abort("cancelled"))
+    ).rejects.toBe("cancelled");
+  });
+
+  it("pauses after a rate limited response until Retry-After", async () => {
+    const rateLimiter = new RateLimiter({});
+    rateLimiter.updateFromResponse(
+      new Response(null, { status: 429, headers: { "Retry-After": "2" } })
+    );
+
+    const { started } = acquireAll(rateLimiter, ["normal"]);
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(started).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toHaveLength(1);
+  });
+
+  it("pauses until the rate limit resets once there are no remaining requests", async () => {
+    const rateLimiter = new RateLimiter({});
+    rateLimiter.updateFromResponse(
+      new Response(null, {
+        headers: { "RateLimit-Remaining": "0", "RateLimit-Reset": "1" },
+      })
+    );
+
+    const { started } = acquireAll(rateLimiter, ["normal"]);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(started).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toHaveLength(1);
+  });
+
+  it("ignores response headers if adaptToResponseHeaders is false", async () => {
+    const rateLimiter = new RateLimiter({ adaptToResponseHeaders: false });
+    rateLimiter.updateFromResponse(new Response(null, { status: 429 }));
+
+    const { started } = acquireAll(rateLimiter, ["normal"]);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toHaveLength(1);
+  });
+});
@@ -0,0 +1,227 @@
+import type { Priority, RateLimitOptions } from "../types";
+
+import { parseRetryAfterHeader } from "../utils/getRetryDelay";
+
+/**
+ * Parse the `RateLimit-Reset` or `X-RateLimit-Reset` header value into
+ * milliseconds, which is usually the number of seconds until the rate limit
+ * resets, but is a Unix timestamp in seconds for some APIs like GitHub's.
+ *
+ * Returns `undefined` if there is no valid value.
+ */
+function parseRateLimitResetHeader(reset: string | null) {
+  const seconds = Number(reset);
+  if (reset === null || reset.trim() === "" || Number.isNaN(seconds)) {
+    return undefined;
+  }
+
+  // Any value this large cannot be a number of seconds to wait
+  return seconds > 1e9
+    ? Math.max(seconds * 1000 - Date.now(), 0)
+    : Math.max(seconds * 1000, 0);
+}
+
+/**
+ * Priorities from the highest to the lowest.
+ */
+const priorities: ReadonlyArray<Priority> = ["high", "normal", "low"];
+
+/**
+ * API call waiting for its turn, where `rank` is the index of its priority in
+ * `priorities`.
+ */
+type QueuedApiCall = { rank: number; onTurn: () => void };
+
+/**
+ * Client side rate limiter of a single base URL, which is shared by every API
+ * call made with the base URL through the same `SimplerFetch` instance.
+ *
+ * API calls wait in a priority queue until there is a free concurrency slot and
+ * a token in the token bucket, and the rate limiter is not paused by a rate
+ * limited response. API calls of the same priority are made in first in first
+ * out order.
+ *
+ * This is also used without any rate limits as the `SimplerFetch` instance's
+ * request scheduler, to limit the concurrency of all its API calls.
+ */
+export class RateLimiter {
+  constructor(private readonly options: RateLimitOptions) {
+    this.#tokens = options.requestsPerInterval ?? Infinity;
+  }
+
+  /**
+   * Queued API calls sorted by priority.
+   */
+  #queue: Array<QueuedApiCall> = [];
+
+  #activeCount = 0;
+
+  #tokens: number;
+
+  #lastRefilledAt = Date.now();
+
+  #pausedUntil = 0;
+
+  #timeoutID: ReturnType<typeof setTimeout> | undefined;
+
+  get #intervalInMilliseconds() {
+    return this.options.intervalInMilliseconds ?? 1000;
+  }
+
+  /**
+   * Refill the token bucket with the tokens earned since the last refill,
+   * which is done lazily instead of with a timer.
+   */
+  #refill() {
+    const requestsPerInterval = this.options.requestsPerInterval;
+    if (requestsPerInterval === undefined) {
+      return;
+    }
+
+    const now = Date.now();
+    this.#tokens = Math.min(
+      requestsPerInterval,
+      this.#tokens +
+        ((now - this.#lastRefilledAt) * requestsPerInterval) /
+          this.#intervalInMilliseconds
+    );
+    this.#lastRefilledAt = now;
+  }
+
+  /**
+   * Get the number of milliseconds to wait before the next API call can be
+   * made, which is undefined if it has to wait for a running API call to
+   * release its concurrency slot instead.
+   */
+  #getWaitTime() {
+    if (this.#activeCount >= (this.options.maxConcurrency ?? Infinity)) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    if (this.#pausedUntil > now) {
+      return this.#pausedUntil - now;
+    }
+
+    this.#refill();
+    if (this.#tokens >= 1) {
+      return 0;
+    }
+
+    // Type cast is safe since there are always tokens without a rate limit
+    return Math.ceil(
+      ((1 - this.#tokens) * this.#intervalInMilliseconds) /
+        (this.options.requestsPerInterval as number)
+    );
+  }
+
+  /**
+   * Let as many queued API calls through as possible, and schedule the next
+   * check if the queue is blocked by the rate limit.
+   */
+  #drain() {
+    clearTimeout(this.#timeoutID);
+    this.#timeoutID = undefined;
+
+    while (this.#queue.length > 0) {
+      const waitTime = this.#getWaitTime();
+
+      // Released concurrency slots will drain the queue again
+      if (waitTime === undefined) {
+        return;
+      }
+
+      if (waitTime > 0) {
+        this.#timeoutID = setTimeout(() => this.#drain(), waitTime);
+        return;
+      }
+
+      this.#activeCount++;
+      this.#tokens--;
+
+      // Type cast is safe since the queue is not empty
+      (this.#queue.shift() as QueuedApiCall).onTurn();
+    }
+  }
+
+  /**
+   * Wait for the API call's turn to be made, which resolves with the function
+   * to release its concurrency slot once it is done.
+   *
+   * Rejects with the abort signal's reason if it is aborted while waiting.
+   */
+  acquire(signal: AbortSignal | undefined, priority: Priority = "normal") {
+    return new Promise<() => void>((resolve, reject) => {
+      signal?.throwIfAborted();
+
+      let isReleased = false;
+      const release = () => {
+        if (!isReleased) {
+          isReleased = true;
+          this.#activeCount--;
+          this.#drain();
+        }
+      };
+
+      const onAbort = () => {
+        this.#queue = this.#queue.filter((waiter) => waiter.onTurn !== onTurn);
+        reject(signal?.reason);
+      };
+
+      const onTurn = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(release);
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      // Insert after every queued API call with the same or higher priority
+      const rank = priorities.indexOf(priority);
+      const index = this.#queue.findIndex((waiter) => waiter.rank > rank);
+      this.#queue.splice(index === -1 ? this.#queue.length : index, 0, {
+        rank,
+        onTurn,
+      });
+
+      this.#drain();
+    });
+  }
+
+  /**
+   * Pause the rate limiter until the rate limit resets if the response is rate
+   * limited, or if it has no remaining requests left in its rate limit.
+   */
+  updateFromResponse(response: Response) {
+    if (this.options.adaptToResponseHeaders === false) {
+      return;
+    }
+
+    const headers = response.headers;
+    const resetDelay = parseRateLimitResetHeader(
+      headers.get("RateLimit-Reset") ?? headers.get("X-RateLimit-Reset")
+    );
+
+    let pauseDuration: number | undefined;
+
+    if (response.status === 429) {
+      // Pause for a second if the server did not say when to try again
+      pauseDuration =
+        parseRetryAfterHeader(headers.get("Retry-After")) ?? resetDelay ?? 1000;
+    } else if (
+      Number(
+        headers.get("RateLimit-Remaining") ??
+          headers.get("X-RateLimit-Remaining") ??
+          NaN
+      ) <= 0
+    ) {
+      pauseDuration = resetDelay;
+    }
+
+    if (pauseDuration !== undefined) {
+      this.#pausedUntil = Math.max(
+        this.#pausedUntil,
+        Date.now() + pauseDuration
+      );
+    }
+  }
+}
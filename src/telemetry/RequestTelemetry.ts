@@ -0,0 +1,174 @@
+import type {
+  ApiResponseTiming,
+  TelemetryEvent,
+  TelemetryHandler,
+} from "../types";
+
+/**
+ * Properties of the API call that are the same for all its events.
+ */
+type TelemetryEventContext = Pick<
+  TelemetryEvent,
+  "method" | "baseUrlIdentifier" | "pathTemplate" | "url"
+>;
+
+/**
+ * Omit the keys from every member of the union instead of from the union
+ * itself, so that the event specific properties are kept.
+ */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+type TimedPhase = "headerGeneration" | "response" | "bodyParse" | "validation";
+
+/**
+ * Last API call ID used, API call IDs are only unique within the JS runtime.
+ */
+let lastApiCallId = 0;
+
+/**
+ * Telemetry of a single run of an API call, which times every phase of the API
+ * call and emits its lifecycle events to the telemetry handlers.
+ *
+ * Phases are timed even if there are no telemetry handlers, since the timing
+ * is also returned on `ApiResponse.timing`.
+ */
+export class RequestTelemetry {
+  constructor(
+    private readonly handlers: ReadonlyArray<TelemetryHandler>,
+    private readonly context: TelemetryEventContext
+  ) {}
+
+  readonly #apiCallId = ++lastApiCallId;
+
+  readonly #startTime = Date.now();
+
+  readonly #startedAt = performance.now();
+
+  #phaseStartedAt = this.#startedAt;
+
+  readonly #durations: Record<TimedPhase, number> = {
+    headerGeneration: 0,
+    response: 0,
+    bodyParse: 0,
+    validation: 0,
+  };
+
+  /**
+   * True if there are telemetry handlers, which can be used to skip any work
+   * that is only needed for the telemetry events.
+   */
+  get isEnabled() {
+    return this.handlers.length > 0;
+  }
+
+  /**
+   * Save the duration of the phase that just ended, which starts the next
+   * phase.
+   */
+  #endPhase(phase: TimedPhase) {
+    const now = performance.now();
+    this.#durations[phase] = now - this.#phaseStartedAt;
+    this.#phaseStartedAt = now;
+    return this.#durations[phase];
+  }
+
+  #emit(
+    event: DistributiveOmit<
+      TelemetryEvent,
+      | keyof TelemetryEventContext
+      | "apiCallId"
+      | "timestamp"
+      | "elapsedInMilliseconds"
+    >
+  ) {
+    if (!this.isEnabled) {
+      return;
+    }
+
+    const telemetryEvent = {
+      ...event,
+      ...this.context,
+      apiCallId: this.#apiCallId,
+      timestamp: Date.now(),
+      elapsedInMilliseconds: performance.now() - this.#startedAt,
+    } as TelemetryEvent;
+
+    for (const handler of this.handlers) {
+      // Ignore exceptions thrown by the handlers, since failing to record the
+      // telemetry should not fail the API call.
+      try {
+        handler(telemetryEvent);
+      } catch {}
+    }
+  }
+
+  requestStart() {
+    this.#emit({ type: "requestStart" });
+  }
+
+  headersResolved() {
+    this.#emit({
+      type: "headersResolved",
+      durationInMilliseconds: this.#endPhase("headerGeneration"),
+    });
+  }
+
+  responseReceived(response: Response, attempts: number) {
+    this.#emit({
+      type: "responseReceived",
+      durationInMilliseconds: this.#endPhase("response"),
+      status: response.status,
+      attempts,
+    });
+  }
+
+  bodyParsed(response: Response, sizeInBytes: number | undefined) {
+    this.#emit({
+      type: "bodyParsed",
+      durationInMilliseconds: this.#endPhase("bodyParse"),
+      status: response.status,
+      sizeInBytes,
+    });
+  }
+
+  validated(response: Response, didValidatorRun: boolean) {
+    this.#emit({
+      type: "validated",
+      durationInMilliseconds: this.#endPhase("validation"),
+      status: response.status,
+      didValidatorRun,
+    });
+  }
+
+  completed(
+    result: { status: number; ok: boolean },
+    timing: ApiResponseTiming | undefined
+  ) {
+    this.#emit({
+      type: "completed",
+      status: result.status,
+      ok: result.ok,
+      timing,
+    });
+  }
+
+  failed(error: unknown) {
+    this.#emit({ type: "failed", error });
+  }
+
+  /**
+   * Get the timing of every phase that has ended so far.
+   */
+  getTiming(): ApiResponseTiming {
+    return {
+      startTime: this.#startTime,
+      headerGenerationInMilliseconds: this.#durations.headerGeneration,
+      responseInMilliseconds: this.#durations.response,
+      bodyParseInMilliseconds: this.#durations.bodyParse,
+      validationInMilliseconds: this.#durations.validation,
+      totalInMilliseconds: performance.now() - this.#startedAt,
+    };
+  }
+}
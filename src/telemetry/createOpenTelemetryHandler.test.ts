@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from "vitest";
+
+import type {
+  ApiResponse,
+  OpenTelemetrySpan,
+  OpenTelemetryTracer,
+} from "../types";
+
+import { HttpException, TimeoutException } from "../exceptions";
+import { SimplerFetch } from "../SimplerFetch";
+import { createMockTransport } from "../testing";
+import { createOpenTelemetryHandler } from "./createOpenTelemetryHandler";
+
+/**
+ * Create a tracer that records every span started with it.
+ */
+function createTracer() {
+  const spans: Array<{
+    name: string;
+    attributes: Record<string, string | number | boolean>;
+    span: OpenTelemetrySpan;
+  }> = [];
+
+  const tracer: OpenTelemetryTracer = {
+    startSpan(name, options) {
+      const attributes = { ...options?.attributes };
+      const span: OpenTelemetrySpan = {
+        setAttribute: vi.fn((key: string, value: string | number | boolean) => {
+          attributes[key] = value;
+        }),
+        addEvent: vi.fn(),
+        setStatus: vi.fn(),
+        recordException: vi.fn(),
+        end: vi.fn(),
+      };
+      spans.push({ name, attributes, span });
+      return span;
+    },
+  };
+
+  return { tracer, spans };
+}
+
+function setup() {
+  const { tracer, spans } = createTracer();
+  const mock = createMockTransport<"v1">();
+  const sf = new SimplerFetch({
+    baseUrlConfigs: { v1: { url: "https://example.com/v1" } },
+    fetch: mock.fetch,
+    telemetryHandlers: [createOpenTelemetryHandler(tracer)],
+  });
+
+  return { sf, mock, spans };
+}
+
+describe("createOpenTelemetryHandler", () => {
+  it("records an API call as a client span", async () => {
+    const { sf, mock, spans } = setup();
+    mock.on("GET /users", () => ({ json: [] }));
+
+    await sf
+      .GET()
+      .useSavedBaseUrl("v1")
+      .path("/users")
+      .parseResponseAsJson()
+      .parseResponseExceptionAsJson()
+      .finishConfig()
+      .runAndThrowOnException();
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0]?.name).toBe("GET /users");
+    expect(spans[0]?.attributes).toEqual({
+      "http.request.method": "GET",
+      "url.full": "https://example.com/v1/users",
+      "url.template": "/users",
+      "simpler_fetch.base_url_identifier": "v1",
+      "http.response.status_code": 200,
+      "http.response.body.size": 2,
+    });
+    expect(spans[0]?.span.setStatus).not.toHaveBeenCalled();
+    expect(spans[0]?.span.end).toHaveBeenCalledOnce();
+  });
+
+  it("sets the error type of responses with a 4xx or 5xx status code to the status code", async () => {
+    const { sf, mock, spans } = setup();
+    mock.on("GET /users", () => ({ status: 404, json: {} }));
+
+    await sf
+      .GET()
+      .useSavedBaseUrl("v1")
+      .path("/users")
+      .parseResponseAsJson()
+      .parseResponseExceptionAsJson()
+      .finishConfig()
+      .runAndThrowOnException();
+
+    expect(spans[0]?.attributes["error.type"]).toBe("404");
+    expect(spans[0]?.span.setStatus).toHaveBeenCalledWith({ code: 2 });
+  });
+
+  it.each([
+    [new TimeoutException("response", 100), "TimeoutException"],
+    [
+      new HttpException("GET", "https://example.com/users", {
+        status: 404,
+        headers: new Headers(),
+      } as ApiResponse<unknown>),
+      "HttpException",
+    ],
+    [new TypeError("Failed to fetch"), "TypeError"],
+    ["not an error", "_OTHER"],
+  ])("sets the error type of failed API calls", (error, errorType) => {
+    const { tracer, spans } = createTracer();
+    const handler = createOpenTelemetryHandler(tracer);
+    const context = {
+      apiCallId: 1,
+      method: "GET",
+      baseUrlIdentifier: undefined,
+      pathTemplate: "/users",
+      url: "https://example.com/users",
+      timestamp: 0,
+      elapsedInMilliseconds: 0,
+    } as const;
+
+    handler({ ...context, type: "requestStart" });
+    handler({ ...context, type: "failed", error });
+
+    expect(spans[0]?.attributes["error.type"]).toBe(errorType);
+  });
+});
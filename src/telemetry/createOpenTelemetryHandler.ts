@@ -0,0 +1,157 @@
+import type {
+  OpenTelemetrySpan,
+  OpenTelemetryTracer,
+  TelemetryHandler,
+} from "../types";
+
+import {
+  AbortException,
+  CircuitOpenException,
+  HeaderException,
+  HttpException,
+  TimeoutException,
+  ValidationException,
+} from "../exceptions";
+
+/**
+ * Values of the OpenTelemetry API's `SpanKind.CLIENT` and
+ * `SpanStatusCode.ERROR` enums, which are inlined since the OpenTelemetry
+ * packages are not imported.
+ */
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_CODE_ERROR = 2;
+
+/**
+ * The `error.type` span attribute values of the library's exceptions, which
+ * are their class names as string literals since class names are not kept
+ * after minification.
+ */
+const exceptionErrorTypes: ReadonlyArray<
+  readonly [abstract new (...args: never) => Error, string]
+> = [
+  [TimeoutException, "TimeoutException"],
+  [AbortException, "AbortException"],
+  [CircuitOpenException, "CircuitOpenException"],
+  [HeaderException, "HeaderException"],
+  [HttpException, "HttpException"],
+  [ValidationException, "ValidationException"],
+];
+
+/**
+ * Get the low cardinality `error.type` span attribute value of the exception.
+ */
+function getErrorType(error: unknown) {
+  const errorType = exceptionErrorTypes.find(
+    ([exception]) => error instanceof exception
+  )?.[1];
+
+  return errorType ?? (error instanceof Error ? error.name : "_OTHER");
+}
+
+/**
+ * Create a telemetry handler that records every API call as an OpenTelemetry
+ * client span with the given tracer, following the OpenTelemetry semantic
+ * conventions for HTTP client spans.
+ *
+ * Spans are named `${method} ${pathTemplate}`, and the `headersResolved`,
+ * `responseReceived`, `bodyParsed` and `validated` events are added as span
+ * events. Spans of API calls that failed, or that got a response with a `4xx`
+ * or `5xx` status code, have their status set to error.
+ *
+ * Do not use this together with the `traceContext` option of `SimplerFetch`,
+ * since the span ID sent in the `traceparent` header is generated by the
+ * library and is not the ID of the span created by the tracer, which breaks
+ * the parent span link of the API server's spans. Use the OpenTelemetry
+ * propagators to inject the trace context headers of the span instead.
+ *
+ * @example Trace every API call
+ * ```typescript
+ * import { trace } from "@opentelemetry/api";
+ *
+ * const sf = new SimplerFetch({
+ *   baseUrlConfigs: { v1: { url: "https://api.example.com/v1" } },
+ *   telemetryHandlers: [createOpenTelemetryHandler(trace.getTracer("my-app"))],
+ * });
+ * ```
+ */
+export function createOpenTelemetryHandler(
+  tracer: OpenTelemetryTracer
+): TelemetryHandler {
+  // Spans of the API calls that have started but not ended, by API call ID
+  const spans = new Map<number, OpenTelemetrySpan>();
+
+  return (event) => {
+    if (event.type === "requestStart") {
+      spans.set(
+        event.apiCallId,
+        tracer.startSpan(`${event.method} ${event.pathTemplate}`, {
+          kind: SPAN_KIND_CLIENT,
+          startTime: event.timestamp,
+          attributes: {
+            "http.request.method": event.method,
+            "url.full": event.url,
+            "url.template": event.pathTemplate,
+            ...(event.baseUrlIdentifier !== undefined && {
+              "simpler_fetch.base_url_identifier": event.baseUrlIdentifier,
+            }),
+          },
+        })
+      );
+      return;
+    }
+
+    // Ignore events of API calls whose span has already ended, e.g. phase
+    // events emitted after the overall timeout is exceeded.
+    const span = spans.get(event.apiCallId);
+    if (span === undefined) {
+      return;
+    }
+
+    switch (event.type) {
+      case "headersResolved":
+      case "validated":
+        span.addEvent(event.type, undefined, event.timestamp);
+        return;
+
+      case "responseReceived":
+        span.setAttribute("http.response.status_code", event.status);
+        if (event.attempts > 1) {
+          span.setAttribute("http.request.resend_count", event.attempts - 1);
+        }
+        span.addEvent(event.type, undefined, event.timestamp);
+        return;
+
+      case "bodyParsed":
+        if (event.sizeInBytes !== undefined) {
+          span.setAttribute("http.response.body.size", event.sizeInBytes);
+        }
+        span.addEvent(event.type, undefined, event.timestamp);
+        return;
+
+      case "completed":
+        if (event.status >= 400) {
+          span.setAttribute("error.type", String(event.status));
+          span.setStatus({ code: SPAN_STATUS_CODE_ERROR });
+        }
+        break;
+
+      case "failed":
+        span.recordException(
+          event.error instanceof Error ? event.error : String(event.error),
+          event.timestamp
+        );
+        span.setAttribute("error.type", getErrorType(event.error));
+        span.setStatus({
+          code: SPAN_STATUS_CODE_ERROR,
+          message:
+            event.error instanceof Error
+              ? event.error.message
+              : String(event.error),
+        });
+        break;
+    }
+
+    span.end(event.timestamp);
+    spans.delete(event.apiCallId);
+  };
+}
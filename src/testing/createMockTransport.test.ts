@@ -0,0 +1,161 @@
+import { describe, expect, it, vi } from "vitest";
+
+import type { HTTPMethod } from "../types";
+
+import { SimplerFetchError } from "../errors";
+import { TimeoutException } from "../exceptions";
+import { SimplerFetch } from "../SimplerFetch";
+import { createMockTransport } from "./createMockTransport";
+
+/**
+ * Call the mock transport's `fetch` function directly with the request details
+ * that the library would pass to it.
+ */
+function callMockFetch(
+  mock: ReturnType<typeof createMockTransport>,
+  path: string,
+  init: RequestInit & { method?: HTTPMethod } = {}
+) {
+  const url = `https://example.com${path}`;
+  return mock.fetch(url, init, {
+    url,
+    method: init.method ?? "GET",
+    baseUrlIdentifier: undefined,
+    path,
+    pathTemplate: path,
+    init,
+  });
+}
+
+describe("createMockTransport", () => {
+  it("matches routes by method, path params and base URL", async () => {
+    const mock = createMockTransport<"v1">();
+    const sf = new SimplerFetch({
+      baseUrlConfigs: { v1: { url: "https://example.com/v1" } },
+      fetch: mock.fetch,
+    });
+
+    mock.on(
+      "GET /users/:id",
+      ({ params }) => ({ json: { id: params["id"] } }),
+      {
+        baseUrl: "v1",
+      }
+    );
+
+    const [err, res] = await sf
+      .GET()
+      .useSavedBaseUrl("v1")
+      .path("/users/:id", { id: "a b" })
+      .parseResponseAsJson()
+      .parseResponseExceptionAsJson()
+      .finishConfig()
+      .runSafely();
+
+    expect(err).toBeNull();
+    expect(res?.data).toEqual({ id: "a b" });
+    expect(mock.calls[0]?.url).toBe("https://example.com/v1/users/a%20b");
+  });
+
+  it("fails loudly when no route matches", async () => {
+    const mock = createMockTransport();
+
+    await expect(callMockFetch(mock, "/missing")).rejects.toBeInstanceOf(
+      SimplerFetchError
+    );
+  });
+
+  it("rejects delayed routes immediately if the signal is already aborted", async () => {
+    const mock = createMockTransport();
+    mock.on("GET /slow", { json: 1, delayInMilliseconds: 60000 });
+
+    const signal = AbortSignal.abort(new Error("already aborted"));
+
+    await expect(callMockFetch(mock, "/slow", { signal })).rejects.toThrow(
+      "already aborted"
+    );
+  });
+
+  it("rejects timeout routes immediately if the signal is already aborted", async () => {
+    const mock = createMockTransport();
+    mock.on("GET /hang", { timeout: true });
+
+    const signal = AbortSignal.abort(new Error("already aborted"));
+
+    await expect(callMockFetch(mock, "/hang", { signal })).rejects.toThrow(
+      "already aborted"
+    );
+  });
+
+  it("fails timeout routes without an abort signal instead of hanging", async () => {
+    const mock = createMockTransport();
+    mock.on("GET /hang", { timeout: true });
+
+    await expect(callMockFetch(mock, "/hang")).rejects.toBeInstanceOf(
+      TimeoutException
+    );
+  });
+
+  it("removes the abort listener once the delay is over", async () => {
+    const mock = createMockTransport();
+    mock.on("GET /slow", { json: 1, delayInMilliseconds: 1 });
+
+    const { signal } = new AbortController();
+    const addEventListener = vi.spyOn(signal, "addEventListener");
+    const removeEventListener = vi.spyOn(signal, "removeEventListener");
+
+    for (let i = 0; i < 3; i++) {
+      await callMockFetch(mock, "/slow", { signal });
+    }
+
+    expect(addEventListener).toHaveBeenCalledTimes(3);
+    expect(removeEventListener).toHaveBeenCalledTimes(3);
+    expect(
+      removeEventListener.mock.calls.map(([, listener]) => listener)
+    ).toEqual(addEventListener.mock.calls.map(([, listener]) => listener));
+  });
+
+  it("removes the abort listener of timeout routes once aborted", async () => {
+    const mock = createMockTransport();
+    mock.on("GET /hang", { timeout: true });
+
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    const addEventListener = vi.spyOn(signal, "addEventListener");
+    const removeEventListener = vi.spyOn(signal, "removeEventListener");
+
+    const response = callMockFetch(mock, "/hang", { signal });
+    await vi.waitFor(() => expect(addEventListener).toHaveBeenCalledOnce());
+    abortController.abort(new Error("timed out"));
+
+    await expect(response).rejects.toThrow("timed out");
+    expect(removeEventListener).toHaveBeenCalledWith(
+      "abort",
+      addEventListener.mock.calls[0]?.[1]
+    );
+  });
+
+  it("rejects delayed routes with the abort reason once aborted", async () => {
+    const mock = createMockTransport();
+    mock.on("GET /slow", { json: 1, delayInMilliseconds: 60000 });
+
+    const abortController = new AbortController();
+    const response = callMockFetch(mock, "/slow", {
+      signal: abortController.signal,
+    });
+    abortController.abort(new Error("cancelled"));
+
+    await expect(response).rejects.toThrow("cancelled");
+  });
+
+  it("only uses a route for the given number of times", async () => {
+    const mock = createMockTransport();
+    mock.on("GET /flaky", { status: 503 }, { times: 1 });
+    mock.on("GET /flaky", { status: 200 });
+
+    const first = await callMockFetch(mock, "/flaky");
+    const second = await callMockFetch(mock, "/flaky");
+
+    expect([first.status, second.status]).toEqual([503, 200]);
+  });
+});
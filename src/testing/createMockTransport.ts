@@ -0,0 +1,373 @@
+import type {
+  FetchFunction,
+  HTTPMethod,
+  JsonTypeAlias,
+  MiddlewareRequest,
+} from "../types";
+
+import { SimplerFetchError } from "../errors";
+import { TimeoutException } from "../exceptions";
+
+/**
+ * Description of a mocked response, as an alternative to creating a full
+ * `Response` object in mock route handlers.
+ */
+export type MockResponse = {
+  /**
+   * Response status code, defaults to 200.
+   */
+  status?: number;
+
+  /**
+   * Response headers.
+   */
+  headers?: HeadersInit;
+
+  /**
+   * Response body, use `json` instead to respond with JSON data.
+   */
+  body?: BodyInit | null;
+
+  /**
+   * JSON data to respond with, which will be stringified and have the
+   * 'application/json' content-type set for it.
+   */
+  json?: JsonTypeAlias;
+
+  /**
+   * Delay the response by the given number of milliseconds. The delay can be
+   * interrupted by the request's abort signal, e.g. when `timeoutAfter` is used.
+   */
+  delayInMilliseconds?: number;
+
+  /**
+   * Fail the request with a `TypeError` just like how `fetch` fails on network
+   * errors.
+   */
+  networkError?: boolean;
+
+  /**
+   * Never respond, so that the request only fails when its abort signal is
+   * aborted, e.g. when the timeout set with `timeoutAfter` is exceeded. If the
+   * request does not have an abort signal, it fails with a `TimeoutException`
+   * immediately so that tests do not hang.
+   */
+  timeout?: boolean;
+};
+
+/**
+ * Details of a request made through the mock transport, recorded so that tests
+ * can make assertions on them.
+ */
+export type MockCall = {
+  /**
+   * Identifier of the saved base URL used, which is undefined if a custom URL
+   * is used with `useUrl` instead.
+   */
+  baseUrlIdentifier: string | undefined;
+
+  method: HTTPMethod;
+
+  /**
+   * The full URL including any query params.
+   */
+  url: string;
+
+  /**
+   * The API path without the base URL and query params.
+   */
+  path: string;
+
+  /**
+   * The merged request headers, with all header names in lower case.
+   */
+  headers: Record<string, string>;
+
+  /**
+   * The raw request body passed to `fetch`.
+   */
+  body: RequestInit["body"];
+};
+
+/**
+ * Mock route handler, which can either be a static response or a function that
+ * is called with the request details and the matched path params.
+ */
+export type MockRouteHandler =
+  | MockResponse
+  | Response
+  | ((
+      call: MockCall & { params: Record<string, string> }
+    ) => MockResponse | Response | Promise<MockResponse | Response>);
+
+type MockRoute = {
+  method: HTTPMethod;
+  pathPattern: RegExp;
+  paramNames: Array<string>;
+  handler: MockRouteHandler;
+  baseUrlIdentifier: string | undefined;
+  remainingTimes: number;
+};
+
+/**
+ * Convert a path pattern like `/users/:id` into a regular expression and the
+ * list of param names used in it.
+ */
+function compilePathPattern(path: string) {
+  const paramNames: Array<string> = [];
+
+  const pattern = path
+    .split("/")
+    .map((segment) => {
+      if (segment.startsWith(":")) {
+        paramNames.push(segment.slice(1));
+        return "([^/]+)";
+      }
+
+      // Escape all regular expression special characters in the segment
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("/");
+
+  return { pathPattern: new RegExp(`^${pattern}/?$`), paramNames };
+}
+
+/**
+ * Wait for the given number of milliseconds, or reject with the abort reason
+ * if the signal is aborted before that or is already aborted.
+ */
+const abortableDelay = (milliseconds: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+
+    const onAbort = () => {
+      clearTimeout(timeoutID);
+      reject(signal?.reason);
+    };
+
+    // Remove the listener once the delay is over, so that long lived signals
+    // do not collect a listener for every mocked request.
+    const timeoutID = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, milliseconds);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Create a `Response` from a `MockResponse` or a `Response`.
+ */
+async function createResponse(
+  mockResponse: MockResponse | Response,
+  signal?: AbortSignal | null
+) {
+  // Clone it so that static `Response` handlers can be used more than once,
+  // since a `Response` body can only be read once.
+  if (mockResponse instanceof Response) {
+    return mockResponse.clone();
+  }
+
+  if (mockResponse.timeout) {
+    if (signal === undefined || signal === null) {
+      throw new TimeoutException("response", 0);
+    }
+
+    signal.throwIfAborted();
+
+    let onAbort = () => {};
+
+    // Remove the listener once the request settles, so that long lived
+    // signals do not collect a listener for every mocked request.
+    try {
+      return await new Promise<never>((_, reject) => {
+        onAbort = () => reject(signal.reason);
+        signal.addEventListener("abort", onAbort, { once: true });
+      });
+    } finally {
+      signal.removeEventListener("abort", onAbort);
+    }
+  }
+
+  if (mockResponse.delayInMilliseconds !== undefined) {
+    await abortableDelay(mockResponse.delayInMilliseconds, signal);
+  }
+
+  if (mockResponse.networkError) {
+    throw new TypeError("Failed to fetch");
+  }
+
+  if (mockResponse.json !== undefined) {
+    return Response.json(mockResponse.json, {
+      status: mockResponse.status ?? 200,
+      headers: mockResponse.headers,
+    });
+  }
+
+  return new Response(mockResponse.body ?? null, {
+    status: mockResponse.status ?? 200,
+    headers: mockResponse.headers,
+  });
+}
+
+/**
+ * Create a mock transport to test code that uses `SimplerFetch` without making
+ * any real API calls, by passing its `fetch` function to the `fetch` option of
+ * the `SimplerFetch` instance.
+ *
+ * Register route handlers with the `on` method by HTTP method and path pattern,
+ * optionally scoped to a specific base URL identifier. Path patterns are
+ * matched against the API path without the base URL, and can contain path
+ * params like `/users/:id`. Routes are matched in the order they are
+ * registered.
+ *
+ * All requests are recorded in `calls` for assertions, and requests that do not
+ * match any route will fail loudly with a `SimplerFetchError` instead of being
+ * silently ignored.
+ *
+ * @example
+ * ```typescript
+ * const mock = createMockTransport();
+ *
+ * const sf = new SimplerFetch({
+ *   baseUrlConfigs: { v1: { url: "https://example.com/v1" } },
+ *   fetch: mock.fetch,
+ * });
+ *
+ * mock.on("GET /users/:id", ({ params }) => ({ json: { id: params.id } }), {
+ *   baseUrl: "v1",
+ * });
+ *
+ * const [err, res] = await sf
+ *   .GET()
+ *   .useSavedBaseUrl("v1")
+ *   .path("/users/1")
+ *   .parseResponseAsJson()
+ *   .parseResponseExceptionAsJson()
+ *   .finishConfig()
+ *   .runSafely();
+ *
+ * mock.calls[0]?.url; // "https://example.com/v1/users/1"
+ * ```
+ */
+export function createMockTransport<
+  const BaseUrlIdentifiers extends string = string
+>() {
+  const routes: Array<MockRoute> = [];
+  const calls: Array<MockCall> = [];
+
+  const fetch: FetchFunction = async (
+    url,
+    init,
+    request?: MiddlewareRequest
+  ) => {
+    // Fallback for when the transport is called directly without the request
+    // details, e.g. when it is wrapped by another `fetch` function.
+    const middlewareRequest: MiddlewareRequest = request ?? {
+      url,
+      method: (init.method ?? "GET") as HTTPMethod,
+      baseUrlIdentifier: undefined,
+      path: new URL(url).pathname,
+      pathTemplate: new URL(url).pathname,
+      init,
+    };
+
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, key) => (headers[key] = value));
+
+    const call: MockCall = {
+      baseUrlIdentifier: middlewareRequest.baseUrlIdentifier,
+      method: middlewareRequest.method,
+      url,
+      // Remove any query params set directly in the path string
+      path: middlewareRequest.path.split("?")[0] ?? "",
+      headers,
+      body: init.body,
+    };
+    calls.push(call);
+
+    for (const route of routes) {
+      if (
+        route.remainingTimes <= 0 ||
+        route.method !== call.method ||
+        (route.baseUrlIdentifier !== undefined &&
+          route.baseUrlIdentifier !== call.baseUrlIdentifier)
+      ) {
+        continue;
+      }
+
+      const match = route.pathPattern.exec(call.path);
+      if (match === null) {
+        continue;
+      }
+
+      route.remainingTimes--;
+
+      const params = Object.fromEntries(
+        route.paramNames.map((name, i) => [
+          name,
+          decodeURIComponent(match[i + 1] ?? ""),
+        ])
+      );
+
+      const mockResponse =
+        typeof route.handler === "function"
+          ? await route.handler({ ...call, params })
+          : route.handler;
+
+      return createResponse(mockResponse, init.signal);
+    }
+
+    throw new SimplerFetchError(
+      `[simpler-fetch] No mock route matched '${call.method} ${call.path}'` +
+        (call.baseUrlIdentifier === undefined
+          ? ""
+          : ` for base URL '${call.baseUrlIdentifier}'`)
+    );
+  };
+
+  return {
+    /**
+     * The mock `fetch` function to pass to the `fetch` option of `SimplerFetch`
+     * or `BaseUrlConfig`.
+     */
+    fetch,
+
+    /**
+     * All the requests made through this mock transport, in order.
+     */
+    calls,
+
+    /**
+     * Register a route handler for a HTTP method and path pattern, e.g.
+     * `GET /users/:id`.
+     *
+     * Use `baseUrl` to only match requests made with that saved base URL, and
+     * `times` to only use this handler for the given number of requests, which
+     * is useful for testing things like retries.
+     */
+    on(
+      route: `${HTTPMethod} ${string}`,
+      handler: MockRouteHandler,
+      options: { baseUrl?: BaseUrlIdentifiers; times?: number } = {}
+    ) {
+      const separatorIndex = route.indexOf(" ");
+
+      routes.push({
+        method: route.slice(0, separatorIndex) as HTTPMethod,
+        ...compilePathPattern(route.slice(separatorIndex + 1).trim()),
+        handler,
+        baseUrlIdentifier: options.baseUrl,
+        remainingTimes: options.times ?? Infinity,
+      });
+    },
+
+    /**
+     * Remove all registered routes and recorded calls.
+     */
+    reset() {
+      routes.length = 0;
+      calls.length = 0;
+    },
+  };
+}
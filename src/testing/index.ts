@@ -0,0 +1,6 @@
+/**
+ * Barrel file to export everything a library user can access from the
+ * `simpler-fetch/testing` entry point.
+ */
+
+export * from "./createMockTransport";
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+
+import { SimplerFetch } from "../SimplerFetch";
+import { createMockTransport } from "../testing";
+import { createRequestTraceContext } from "./createRequestTraceContext";
+import { getTraceContextHeaders } from "./getTraceContextHeaders";
+
+const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+const parentId = "00f067aa0ba902b7";
+
+describe("createRequestTraceContext", () => {
+  it("continues the trace of a valid traceparent with a new span ID", () => {
+    const traceContext = createRequestTraceContext({
+      getCurrentContext: () => ({
+        traceparent: `00-${traceId}-${parentId}-00`,
+        tracestate: "vendor=value",
+        requestId: "request-1",
+      }),
+    });
+
+    expect(traceContext.traceId).toBe(traceId);
+    expect(traceContext.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(traceContext.spanId).not.toBe(parentId);
+    expect(traceContext.traceparent).toBe(
+      `00-${traceId}-${traceContext.spanId}-00`
+    );
+    expect(traceContext.tracestate).toBe("vendor=value");
+    expect(traceContext.requestId).toBe("request-1");
+  });
+
+  it("gives every API call its own span ID", () => {
+    const options = {
+      getCurrentContext: () => ({
+        traceparent: `00-${traceId}-${parentId}-01`,
+      }),
+    };
+
+    expect(createRequestTraceContext(options).spanId).not.toBe(
+      createRequestTraceContext(options).spanId
+    );
+  });
+
+  it("parses future versions of the traceparent with extra fields", () => {
+    const traceContext = createRequestTraceContext({
+      getCurrentContext: () => ({
+        traceparent: `01-${traceId}-${parentId}-01-extra`,
+      }),
+    });
+
+    expect(traceContext.traceId).toBe(traceId);
+    expect(traceContext.traceparent).toBe(
+      `00-${traceId}-${traceContext.spanId}-01`
+    );
+  });
+
+  it.each([
+    ["missing", undefined],
+    ["malformed", "not-a-traceparent"],
+    ["version ff", `ff-${traceId}-${parentId}-01`],
+    ["version 00 with extra fields", `00-${traceId}-${parentId}-01-extra`],
+    ["all zero trace ID", `00-${"0".repeat(32)}-${parentId}-01`],
+    ["all zero parent ID", `00-${traceId}-${"0".repeat(16)}-01`],
+    ["uppercase", `00-${traceId.toUpperCase()}-${parentId}-01`],
+  ])(
+    "starts a new sampled trace and drops tracestate if traceparent is %s",
+    (_, traceparent) => {
+      const traceContext = createRequestTraceContext({
+        getCurrentContext: () => ({ traceparent, tracestate: "vendor=value" }),
+      });
+
+      expect(traceContext.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(traceContext.traceId).not.toBe(traceId);
+      expect(traceContext.traceparent).toMatch(
+        new RegExp(`^00-${traceContext.traceId}-${traceContext.spanId}-01$`)
+      );
+      expect(traceContext.tracestate).toBeUndefined();
+    }
+  );
+
+  it("generates a request ID unless the request ID header is disabled", () => {
+    expect(createRequestTraceContext({}).requestId).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+    );
+    expect(
+      createRequestTraceContext({
+        requestIdHeader: false,
+        getCurrentContext: () => ({ requestId: "request-1" }),
+      }).requestId
+    ).toBeUndefined();
+  });
+});
+
+describe("getTraceContextHeaders", () => {
+  it("gets the headers of the trace context", () => {
+    const traceContext = createRequestTraceContext({
+      getCurrentContext: () => ({
+        traceparent: `00-${traceId}-${parentId}-01`,
+        tracestate: "vendor=value",
+        requestId: "request-1",
+      }),
+    });
+
+    expect(getTraceContextHeaders(traceContext, {})).toEqual({
+      traceparent: traceContext.traceparent,
+      tracestate: "vendor=value",
+      "X-Request-ID": "request-1",
+    });
+    expect(
+      getTraceContextHeaders(traceContext, {
+        requestIdHeader: "X-Correlation-ID",
+      })
+    ).toEqual({
+      traceparent: traceContext.traceparent,
+      tracestate: "vendor=value",
+      "X-Correlation-ID": "request-1",
+    });
+  });
+
+  it("only sends the traceparent header without tracestate and request ID", () => {
+    const traceContext = createRequestTraceContext({ requestIdHeader: false });
+
+    expect(
+      getTraceContextHeaders(traceContext, { requestIdHeader: false })
+    ).toEqual({ traceparent: traceContext.traceparent });
+  });
+});
+
+describe("traceContext option", () => {
+  it("sends the trace context headers returned on the ApiResponse", async () => {
+    const mock = createMockTransport<"v1">();
+    const sf = new SimplerFetch({
+      baseUrlConfigs: { v1: { url: "https://example.com/v1" } },
+      fetch: mock.fetch,
+      traceContext: {
+        getCurrentContext: () => ({
+          traceparent: `00-${traceId}-${parentId}-01`,
+        }),
+        requestIdHeader: "X-Correlation-ID",
+      },
+    });
+    mock.on("GET /users", () => ({ json: [] }));
+
+    const res = await sf
+      .GET()
+      .useSavedBaseUrl("v1")
+      .path("/users")
+      .parseResponseAsJson()
+      .parseResponseExceptionAsJson()
+      .finishConfig()
+      .runAndThrowOnException();
+
+    expect(res.traceContext?.traceId).toBe(traceId);
+    expect(mock.calls[0]?.headers).toMatchObject({
+      traceparent: res.traceContext?.traceparent,
+      "x-correlation-id": res.traceContext?.requestId,
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import type { RequestTraceContext, TraceContextOptions } from "../types";
+
+/**
+ * Matches version 00 of the W3C `traceparent` header format, where future
+ * versions are parsed the same way as required by the specification.
+ */
+const traceparentRegex =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})/;
+
+/**
+ * Generate random bytes as a lowercase hex string, which is never all zeros
+ * since all zero trace IDs and span IDs are invalid.
+ */
+function generateRandomHex(bytes: number): string {
+  const hex = Array.from(
+    crypto.getRandomValues(new Uint8Array(bytes)),
+    (byte) => byte.toString(16).padStart(2, "0")
+  ).join("");
+
+  return /^0+$/.test(hex) ? generateRandomHex(bytes) : hex;
+}
+
+/**
+ * Generate a request ID, using a UUID where possible since that is what most
+ * API servers expect, but `crypto.randomUUID` is only available to browsers in
+ * secure contexts.
+ */
+function generateRequestId() {
+  return typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : generateRandomHex(16);
+}
+
+/**
+ * Create the trace context of an API call, which continues the trace of the
+ * current operation if it has a valid `traceparent`, or starts a new trace.
+ * Every API call gets its own span ID.
+ */
+export function createRequestTraceContext(
+  options: TraceContextOptions
+): RequestTraceContext {
+  const currentContext = options.getCurrentContext?.();
+  const traceparent = currentContext?.traceparent ?? "";
+
+  const [, version, parentTraceId, parentId, parentTraceFlags] =
+    traceparentRegex.exec(traceparent) ?? [];
+
+  // Version 00 cannot have any extra fields, unlike future versions.
+  const isValidTraceparent =
+    version !== undefined &&
+    version !== "ff" &&
+    (version !== "00" || traceparent.length === 55) &&
+    !/^0+$/.test(parentTraceId as string) &&
+    !/^0+$/.test(parentId as string);
+
+  const traceId = isValidTraceparent
+    ? (parentTraceId as string)
+    : generateRandomHex(16);
+
+  // Keep the sampled flag of the parent, new traces are always sampled since
+  // the sampling decision is left to the API server.
+  const traceFlags = isValidTraceparent ? (parentTraceFlags as string) : "01";
+
+  const spanId = generateRandomHex(8);
+
+  return {
+    traceId,
+    spanId,
+    traceparent: `00-${traceId}-${spanId}-${traceFlags}`,
+
+    // `tracestate` is only valid together with the `traceparent` it came with
+    tracestate: isValidTraceparent ? currentContext?.tracestate : undefined,
+
+    requestId:
+      options.requestIdHeader === false
+        ? undefined
+        : currentContext?.requestId ?? generateRequestId(),
+  };
+}
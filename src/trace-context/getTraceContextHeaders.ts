@@ -0,0 +1,19 @@
+import type { RequestTraceContext, TraceContextOptions } from "../types";
+
+/**
+ * Get the headers to send the trace context of the API call with.
+ */
+export function getTraceContextHeaders(
+  traceContext: RequestTraceContext,
+  options: TraceContextOptions
+): Record<string, string> {
+  return {
+    traceparent: traceContext.traceparent,
+    ...(traceContext.tracestate !== undefined && {
+      tracestate: traceContext.tracestate,
+    }),
+    ...(traceContext.requestId !== undefined && {
+      [options.requestIdHeader || "X-Request-ID"]: traceContext.requestId,
+    }),
+  };
+}
@@ -1,3 +1,6 @@
+import type { ApiResponseTiming } from "./ApiResponseTiming";
+import type { RequestTraceContext } from "./RequestTraceContext";
+
 /**
  * Expected return type of all `Fetch` run methods that do response parsing.
  *
@@ -23,4 +26,22 @@ export type ApiResponse<T> = {
    * whether the data is really validated or is it potentially garbage.
    */
   didValidatorRun: boolean;
+
+  /**
+   * Number of attempts made for this API call, which is always 1 unless a
+   * retry policy is used.
+   */
+  attempts: number;
+
+  /**
+   * Time spent on each phase of this API call, which is shared with every API
+   * call that shares this API call through request deduplication.
+   */
+  timing: ApiResponseTiming;
+
+  /**
+   * Trace context sent with this API call, which is only set if trace context
+   * propagation is enabled with the `traceContext` option of `SimplerFetch`.
+   */
+  traceContext: RequestTraceContext | undefined;
 };
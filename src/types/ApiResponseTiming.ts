@@ -0,0 +1,37 @@
+/**
+ * Time spent on each phase of an API call, where every duration is measured
+ * with the monotonic `performance.now()` clock.
+ */
+export type ApiResponseTiming = {
+  /**
+   * Time when the API call started, in milliseconds since the Unix epoch.
+   */
+  startTime: number;
+
+  /**
+   * Time spent generating the headers, including the auth headers.
+   */
+  headerGenerationInMilliseconds: number;
+
+  /**
+   * Time from after the headers are generated until the response headers are
+   * received, including any time spent waiting for rate limiters, retry
+   * attempts, backoff delays, auth replays and cache lookups.
+   */
+  responseInMilliseconds: number;
+
+  /**
+   * Time spent reading and parsing the response body.
+   */
+  bodyParseInMilliseconds: number;
+
+  /**
+   * Time spent running the response validator, which is 0 if there is none.
+   */
+  validationInMilliseconds: number;
+
+  /**
+   * Total time taken for the whole API call.
+   */
+  totalInMilliseconds: number;
+};
@@ -0,0 +1,80 @@
+import { describe, expectTypeOf, it } from "vitest";
+
+import { SimplerFetch } from "../SimplerFetch";
+import { openApiPaths } from "../utils/openApiPaths";
+
+type User = { id: number };
+type NotFound = { message: string };
+type UnexpectedError = { error: string };
+
+type paths = {
+  "/users/{id}": {
+    get: {
+      parameters: { path: { id: number } };
+      responses: {
+        200: { content: { "application/json": User } };
+        404: { content: { "application/json": NotFound } };
+        default: { content: { "application/json": UnexpectedError } };
+      };
+    };
+  };
+};
+
+const sf = new SimplerFetch({
+  baseUrlConfigs: {
+    api: { url: "https://example.com", openApiPaths: openApiPaths<paths>() },
+  },
+});
+
+const getUser = () =>
+  sf.GET().useSavedBaseUrl("api").path("/users/{id}", { id: 1 });
+
+describe("ApiResponseUnion", () => {
+  it("narrows the data type of OpenAPI typed API calls with status", async () => {
+    const res = await getUser()
+      .parseResponseAsJson()
+      .parseResponseExceptionAsJson()
+      .finishConfig()
+      .runAndThrowOnException();
+
+    if (res.status === 200) {
+      expectTypeOf(res.data).toEqualTypeOf<User | UnexpectedError>();
+    }
+    if (res.status === 404) {
+      expectTypeOf(res.data).toEqualTypeOf<NotFound | UnexpectedError>();
+    }
+    if (res.ok) {
+      expectTypeOf(res.data).toEqualTypeOf<User | UnexpectedError>();
+    }
+
+    expectTypeOf<
+      Extract<typeof res, { status: 200 }>["data"]
+    >().toEqualTypeOf<User>();
+  });
+
+  it("only narrows the data type with ok if the data type is overridden", async () => {
+    const res = await getUser()
+      .parseResponseAsJson<{ name: string }>()
+      .parseResponseExceptionAsJson()
+      .finishConfig()
+      .runAndThrowOnException();
+
+    expectTypeOf(res.status).toEqualTypeOf<number>();
+    if (res.ok) {
+      expectTypeOf(res.data).toEqualTypeOf<{ name: string }>();
+    } else {
+      expectTypeOf(res.data).toEqualTypeOf<NotFound | UnexpectedError>();
+    }
+  });
+
+  it("only narrows ok responses for runAndThrowOnNonOk", async () => {
+    const res = await getUser()
+      .parseResponseAsJson()
+      .parseResponseExceptionAsJson()
+      .finishConfig()
+      .runAndThrowOnNonOk();
+
+    expectTypeOf(res.ok).toEqualTypeOf<true>();
+    expectTypeOf(res.data).toEqualTypeOf<User | UnexpectedError>();
+  });
+});
@@ -0,0 +1,55 @@
+import type { ApiResponse } from "./ApiResponse";
+
+/**
+ * Status code of a status code key of an OpenAPI operation's responses, which
+ * is `number` for status code ranges like `4XX` and the `default` response.
+ */
+type StatusCode<Status> = Status extends number
+  ? Status
+  : Status extends `${infer Code extends number}`
+  ? Code
+  : number;
+
+/**
+ * Whether the response of a status code key of an OpenAPI operation's
+ * responses is ok, which can be either for the `default` response.
+ */
+type IsOkStatus<Status> = Status extends "default"
+  ? boolean
+  : `${Status & (string | number)}` extends `2${string}`
+  ? true
+  : false;
+
+/**
+ * `ApiResponse` of a single status code, which is split into one member for
+ * every possible `ok` value so that `ok` can also be used to narrow the data.
+ */
+type StatusApiResponse<Data, Status, Ok extends boolean> = Ok extends boolean
+  ? ApiResponse<Data> & { ok: Ok; status: Status }
+  : never;
+
+/**
+ * Union of all the possible `ApiResponse`s of an API call, which can be
+ * narrowed with `ok` to get either the response data or the response exception
+ * data.
+ *
+ * If the API call is typed with an OpenAPI `paths` type, `StatusDataTypes` maps
+ * every status code of the OpenAPI operation to its response data type, so that
+ * the union can also be narrowed with `status` to get the data type of that
+ * status code.
+ */
+export type ApiResponseUnion<
+  ResponseDataType,
+  ResponseExceptionDataType,
+  StatusDataTypes = undefined
+> = StatusDataTypes extends undefined
+  ?
+      | (ApiResponse<ResponseDataType> & { ok: true })
+      | (ApiResponse<ResponseExceptionDataType> & { ok: false })
+  : {
+      [Status in keyof StatusDataTypes]: StatusApiResponse<
+        StatusDataTypes[Status],
+        StatusCode<Status>,
+        IsOkStatus<Status>
+      >;
+    }[keyof StatusDataTypes];
@@ -0,0 +1,20 @@
+/**
+ * Auth provider interface used by `BaseUrlConfig.authProvider` to supply the
+ * auth headers of every API call made with the base URL, and to refresh the
+ * credentials once an API call gets a `401 Unauthorized` response, after which
+ * the API call is replayed once with the new auth headers.
+ *
+ * `TokenAuthProvider` implements this for access tokens that expire.
+ */
+export type AuthProvider = {
+  /**
+   * Get the auth headers for an API call.
+   */
+  getAuthHeaders(): Promise<Record<string, string>>;
+
+  /**
+   * Called with the request headers of an API call that got a `401
+   * Unauthorized` response, which resolves once the credentials are refreshed.
+   */
+  onUnauthorized(requestHeaders: Record<string, string>): Promise<void>;
+};
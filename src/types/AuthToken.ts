@@ -0,0 +1,15 @@
+/**
+ * Access token fetched by the `fetchToken` function of `TokenAuthProvider`.
+ */
+export type AuthToken = {
+  /**
+   * The access token used to generate the auth headers.
+   */
+  readonly accessToken: string;
+
+  /**
+   * Unix timestamp in milliseconds of when the access token expires, which is
+   * undefined if the access token does not expire.
+   */
+  readonly expiresAt?: number;
+};
@@ -1,4 +1,12 @@
+import type { AuthProvider } from "./AuthProvider";
+import type { CircuitBreakerOptions } from "./CircuitBreakerOptions";
+import type { FetchFunction } from "./FetchFunction";
 import type { Header } from "./Header";
+import type { Middleware } from "./Middleware";
+import type { OpenApiPaths } from "./OpenApiPaths";
+import type { QuerySerializationOptions } from "./QuerySerializationOptions";
+import type { RateLimitOptions } from "./RateLimitOptions";
+import type { RetryPolicy } from "./RetryPolicy";
 
 /**
  * Configurations for each base URL
@@ -35,6 +43,86 @@ export type BaseUrlConfig = {
    * with the `Fetch` instance.
    */
   readonly defaultHeaders?: Array<Header>;
+
+  /**
+   * Middlewares that will be used for every API call made with this base URL.
+   *
+   * These run after (i.e. are nested within) the middlewares set on the
+   * `SimplerFetch` instance itself.
+   */
+  readonly middlewares?: Array<Middleware>;
+
+  /**
+   * Default retry policy for this base URL that is applied automatically to
+   * every API call made with this base URL.
+   *
+   * This can be overwritten one-off in specific API calls with the `retry`
+   * method.
+   *
+   * Note that non-idempotent HTTP methods like `POST` and `PATCH` will not be
+   * retried unless `retryNonIdempotentMethods` is explicitly set to `true`.
+   */
+  readonly defaultRetryPolicy?: RetryPolicy;
+
+  /**
+   * Custom `fetch` function to use for every API call made with this base URL,
+   * instead of the `SimplerFetch` instance's `fetch` function or the global
+   * `fetch` function.
+   *
+   * Useful for things like routing API calls to this base URL through a proxy.
+   */
+  readonly fetch?: FetchFunction;
+
+  /**
+   * Auth provider used to generate the auth headers of every API call made
+   * with this base URL, e.g. a `TokenAuthProvider`. API calls that get a `401
+   * Unauthorized` response are replayed once after the auth provider refreshes
+   * the credentials.
+   *
+   * Headers set with the `useHeader` method will override the auth headers.
+   */
+  readonly authProvider?: AuthProvider;
+
+  /**
+   * Enable the circuit breaker for this base URL, so that API calls fail fast
+   * with a `CircuitOpenException` without making any API calls once the base
+   * URL has failed too many times recently, see `CircuitBreakerOptions`.
+   *
+   * The circuit breaker state can be inspected and reset with the
+   * `SimplerFetch` instance's `getCircuitBreakerState` and
+   * `resetCircuitBreaker` methods.
+   */
+  readonly circuitBreaker?: CircuitBreakerOptions;
+
+  /**
+   * Enable the client side rate limiter for this base URL, so that API calls
+   * are queued until they are within the maximum concurrency and rate, see
+   * `RateLimitOptions`.
+   *
+   * Useful for batch jobs that make many API calls at once to an API that bans
+   * clients that exceed its rate limits.
+   */
+  readonly rateLimit?: RateLimitOptions;
+
+  /**
+   * Deduplicate concurrent identical `GET` and `HEAD` API calls made with this
+   * base URL by default, see the `dedupe` method for more details.
+   */
+  readonly dedupe?: boolean;
+
+  /**
+   * Options for how query params of API calls made with this base URL are
+   * serialized, e.g. to match the array format expected by the API server.
+   */
+  readonly querySerialization?: QuerySerializationOptions;
+
+  /**
+   * Type only `openapi-typescript` style `paths` type for this base URL,
+   * created with `openApiPaths<paths>()`, to infer the paths, path params,
+   * query params, request body and response types of API calls made with this
+   * base URL.
+   */
+  readonly openApiPaths?: OpenApiPaths<unknown>;
 };
 
 /**
@@ -0,0 +1,17 @@
+/**
+ * Cache mode for a specific API call, which can be set with the `cacheMode`
+ * method to override how the response cache is used.
+ *
+ * 1. `default`: Use the cached response if it is fresh according to its
+ *    `Cache-Control` header, else revalidate it with the API server.
+ * 1. `no-store`: Skip the cache completely, neither using a cached response nor
+ *    caching the new response.
+ * 1. `no-cache`: Always revalidate the cached response with the API server
+ *    before using it, even if it is still fresh.
+ * 1. `force-cache`: Use the cached response if there is one, even if it is
+ *    stale, else make the API call.
+ *
+ * These follow the same semantics as the `fetch` API's `RequestInit.cache`
+ * option, see https://developer.mozilla.org/en-US/docs/Web/API/Request/cache
+ */
+export type CacheMode = "default" | "no-store" | "no-cache" | "force-cache";
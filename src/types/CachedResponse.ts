@@ -0,0 +1,35 @@
+/**
+ * A cached `Response` that can be stored in a `ResponseCacheStorage`.
+ *
+ * Only plain values are used so that it can be serialized by storage
+ * implementations that are not in memory.
+ */
+export type CachedResponse = {
+  status: number;
+  statusText: string;
+  headers: Array<[string, string]>;
+  body: ArrayBuffer;
+
+  /**
+   * Unix timestamp in milliseconds of when the response was received.
+   */
+  storedAt: number;
+
+  /**
+   * How long the response is fresh for after `storedAt`.
+   */
+  maxAgeInMilliseconds: number;
+
+  /**
+   * How long the response can be used while it is being revalidated in the
+   * background after it becomes stale.
+   */
+  staleWhileRevalidateInMilliseconds: number;
+
+  /**
+   * Request header values for all the headers named in the response's `Vary`
+   * header, where cached responses are only used for requests with the same
+   * header values.
+   */
+  varyHeaders: Record<string, string | null>;
+};
@@ -0,0 +1,42 @@
+/**
+ * Options for the circuit breaker of a base URL, set with
+ * `BaseUrlConfig.circuitBreaker`.
+ *
+ * Once `failureThreshold` API calls fail within `failureWindowInMilliseconds`,
+ * the circuit breaker opens and API calls fail fast with a
+ * `CircuitOpenException` for `openDurationInMilliseconds`. After that, the
+ * circuit breaker is half-open, where a single probe API call is let through
+ * to close the circuit breaker if it succeeds, or open it again if it fails.
+ */
+export type CircuitBreakerOptions = {
+  /**
+   * Number of failures within the failure window that opens the circuit
+   * breaker.
+   *
+   * Defaults to 5.
+   */
+  failureThreshold?: number;
+
+  /**
+   * Failures older than this are not counted.
+   *
+   * Defaults to 60000 milliseconds.
+   */
+  failureWindowInMilliseconds?: number;
+
+  /**
+   * How long the circuit breaker stays open before letting a probe API call
+   * through.
+   *
+   * Defaults to 30000 milliseconds.
+   */
+  openDurationInMilliseconds?: number;
+
+  /**
+   * Response status codes counted as failures, on top of network failures and
+   * timeouts.
+   *
+   * Defaults to `[500, 502, 503, 504]`.
+   */
+  failureStatuses?: ReadonlyArray<number>;
+};
@@ -0,0 +1,22 @@
+/**
+ * Snapshot of a base URL's circuit breaker, from
+ * `SimplerFetch.getCircuitBreakerState`.
+ */
+export type CircuitBreakerState = {
+  /**
+   * "closed" if API calls are made as usual, "open" if API calls fail fast,
+   * and "half-open" if a probe API call is let through.
+   */
+  readonly state: "closed" | "open" | "half-open";
+
+  /**
+   * Number of failures within the failure window.
+   */
+  readonly failureCount: number;
+
+  /**
+   * Unix timestamp in milliseconds of when the circuit breaker last opened,
+   * which is undefined if it is closed.
+   */
+  readonly openedAt: number | undefined;
+};
@@ -0,0 +1,65 @@
+import type { HTTPMethod } from "./HTTPMethod";
+import type { QueryParams } from "./QueryParams";
+import type { Validator } from "./Validator";
+
+/**
+ * ## `EndpointContract` Type
+ * Declaration of a single API endpoint, used to generate a fully typed
+ * endpoint function on `SimplerFetch.endpoints` so that every call site of the
+ * same endpoint shares the same types and validators.
+ *
+ * Since this is just plain data, it can be shared with server code too, e.g. to
+ * validate incoming query params and request bodies with the same validators.
+ *
+ * Use `defineEndpoints` to declare endpoint contracts outside of the
+ * `SimplerFetch` constructor while keeping their literal types.
+ */
+export type EndpointContract = {
+  /**
+   * API call's HTTP Method
+   */
+  readonly method: HTTPMethod;
+
+  /**
+   * Identifier of the saved base URL to use for this endpoint.
+   */
+  readonly baseUrlIdentifier: string;
+
+  /**
+   * Path template of this endpoint, where path params are path segments that
+   * start with `:`, e.g. `/users/:userId`.
+   */
+  readonly path: string;
+
+  /**
+   * Validator for the query params, whose type is used as the type of the
+   * endpoint function's `query` argument.
+   *
+   * This validator is not run before sending the API call, it is used for its
+   * type and for server code to validate incoming query params.
+   */
+  readonly query?: Validator<QueryParams>;
+
+  /**
+   * Validator for the JSON request body, whose type is used as the type of the
+   * endpoint function's `body` argument. The request body is not sent if this
+   * is not set.
+   *
+   * This validator is not run before sending the API call, it is used for its
+   * type and for server code to validate incoming request bodies.
+   */
+  readonly body?: Validator<unknown>;
+
+  /**
+   * Validator for the JSON response data, which will be run on the parsed
+   * response. The response is not parsed if this is not set.
+   */
+  readonly response?: Validator<unknown>;
+
+  /**
+   * Validator for the JSON response exception data, which will be run on the
+   * parsed response exception. The response exception is not parsed if this is
+   * not set.
+   */
+  readonly exception?: Validator<unknown>;
+};
@@ -0,0 +1,28 @@
+/**
+ * Options for `parseResponseAsEventStream`.
+ */
+export type EventStreamOptions = {
+  /**
+   * Parse every event's data as JSON before validating it.
+   *
+   * Defaults to false, where the event data is the raw string data.
+   */
+  parseDataAsJson?: boolean;
+
+  /**
+   * Reconnect with the `Last-Event-ID` header once the response body ends or
+   * the connection is dropped, until the API call is cancelled with its abort
+   * signal.
+   *
+   * Defaults to true.
+   */
+  reconnect?: boolean;
+
+  /**
+   * Reconnection delay in milliseconds used until the server sends a `retry`
+   * hint.
+   *
+   * Defaults to 3000.
+   */
+  defaultRetryInMilliseconds?: number;
+};
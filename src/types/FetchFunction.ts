@@ -0,0 +1,21 @@
+import type { MiddlewareRequest } from "./Middleware";
+
+/**
+ * Type of the `fetch` function used to make the actual API call, which can be
+ * customised with the `fetch` option of `SimplerFetch` and `BaseUrlConfig`.
+ *
+ * Any spec compliant `fetch` function can be used, including the global
+ * `fetch` function itself.
+ *
+ * The function is called with an additional 3rd argument, which is the final
+ * `MiddlewareRequest` that also includes library specific details such as the
+ * base URL identifier and API path. This is ignored by standard `fetch`
+ * functions, but allows custom implementations such as the mock transport
+ * created with `createMockTransport` to route requests without having to parse
+ * the URL.
+ */
+export type FetchFunction = (
+  url: string,
+  init: RequestInit,
+  request: MiddlewareRequest
+) => Promise<Response>;
@@ -0,0 +1,11 @@
+/**
+ * Whether 2 types are exactly the same type, which is `true` or `false`.
+ *
+ * Unlike checking if the types extend each other, this does not treat `any` as
+ * the same type as every other type.
+ */
+export type IsSameType<A, B> = (<T>() => T extends A ? 1 : 2) extends <
+  T
+>() => T extends B ? 1 : 2
+  ? true
+  : false;
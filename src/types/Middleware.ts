@@ -0,0 +1,84 @@
+import type { HTTPMethod } from "./HTTPMethod";
+
+/**
+ * The outgoing request as seen by a `Middleware`, after all the header
+ * functions have been resolved and right before the `fetch` function is
+ * called.
+ *
+ * Middlewares can rewrite the request by passing a new/modified object to the
+ * `next` function.
+ */
+export type MiddlewareRequest = {
+  /**
+   * The full generated URL from `Fetch.getUrl()`, including query params.
+   */
+  url: string;
+
+  /**
+   * API call's HTTP Method. Middlewares should not change this, if the HTTP
+   * method needs to be changed, set it on `init.method` instead.
+   */
+  readonly method: HTTPMethod;
+
+  /**
+   * Identifier of the saved base URL used, which is undefined if a custom URL
+   * is used with `useUrl` instead.
+   */
+  readonly baseUrlIdentifier: string | undefined;
+
+  /**
+   * The API path set with the `path` methods, without the base URL.
+   */
+  readonly path: string;
+
+  /**
+   * The path template used to generate `path` before the path params are
+   * filled in, e.g. `/users/:userId`, which can be used as a stable route name
+   * for things like logging and metrics.
+   */
+  readonly pathTemplate: string;
+
+  /**
+   * The final `RequestInit` object that will be passed to the `fetch`
+   * function, with the headers already generated and merged.
+   */
+  init: RequestInit;
+};
+
+/**
+ * ## `Middleware` Type
+ * Middleware function that wraps every API call made through a `SimplerFetch`
+ * instance, used to implement things like logging, metrics and error reporting
+ * once instead of at every API call site.
+ *
+ * Middlewares run in the order that they are registered, where the first
+ * middleware is the outermost layer, i.e. it sees the request first and the
+ * `Response` last. Calling `next` runs the rest of the middleware chain and
+ * eventually the `fetch` function itself.
+ *
+ * A middleware can short-circuit the chain by returning a synthetic `Response`
+ * without calling `next`, e.g. to serve mocked responses.
+ *
+ * Since `ApiResponse` is generated from the `Response` returned here, any
+ * changes made to the `Response` will be reflected in the `ApiResponse`.
+ *
+ * Middlewares run around the `fetch` call only, so they see the raw
+ * `Response` before its body is parsed and validated, and never the parsed
+ * `ApiResponse` or the exceptions thrown while parsing and validating it. Use
+ * the `completed` and `failed` events of `telemetryHandlers` to observe the
+ * outcome of every API call instead.
+ *
+ * @example Logging middleware
+ * ```typescript
+ * const logger: Middleware = async (request, next) => {
+ *   console.log("Request", request.method, request.url);
+ *   const response = await next(request);
+ *   console.log("Response", response.status, request.url);
+ *   return response;
+ * };
+ * ```
+ */
+export type Middleware = (
+  request: MiddlewareRequest,
+  next: (request: MiddlewareRequest) => Promise<Response>
+) => Promise<Response>;
@@ -0,0 +1,11 @@
+/**
+ * File for `setRequestBodyWithMultipart`, which can either be a `Blob` / `File`
+ * or a `Blob` with a filename, since `Blob`s do not have a filename of their
+ * own unlike `File`s.
+ */
+export type MultipartFile =
+  | Blob
+  | {
+      readonly data: Blob;
+      readonly filename: string;
+    };
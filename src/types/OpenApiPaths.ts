@@ -0,0 +1,194 @@
+import type { HTTPMethod } from "./HTTPMethod";
+
+/**
+ * ## `OpenApiPaths` Type
+ * Phantom type used to attach an `openapi-typescript` style `paths` type to a
+ * base URL with `BaseUrlConfig.openApiPaths`, so that API calls made with the
+ * base URL have their paths, path params, query params, request body and
+ * response types inferred from it.
+ *
+ * This only exists at the type level, create it with `openApiPaths<paths>()`.
+ */
+export type OpenApiPaths<Paths> = {
+  /**
+   * Phantom property that only exists at the type level to hold the `paths`
+   * type, which is always undefined at runtime.
+   */
+  readonly __openApiPaths?: Paths;
+};
+
+/**
+ * Get the `paths` type from a base URL config, which is `undefined` if the base
+ * URL config does not have `openApiPaths` set.
+ */
+export type OpenApiPathsOf<Config> = Config extends {
+  readonly openApiPaths?: OpenApiPaths<infer Paths>;
+}
+  ? unknown extends Paths
+    ? undefined
+    : Paths
+  : undefined;
+
+/**
+ * Get the OpenAPI operation of a path template and HTTP method, which is
+ * `undefined` if there is no `paths` type to infer it from.
+ */
+export type OpenApiOperation<
+  Paths,
+  PathTemplate extends string,
+  Method extends HTTPMethod
+> = Paths extends undefined
+  ? undefined
+  : PathTemplate extends keyof Paths
+  ? Paths[PathTemplate] extends { readonly [M in Lowercase<Method>]: infer Op }
+    ? Op
+    : never
+  : never;
+
+/**
+ * Union of all the path templates in `paths` that has an operation for the HTTP
+ * method, which is `string` if there is no `paths` type.
+ *
+ * Set `WithoutRequiredQueryParams` to only include the path templates that do
+ * not have required query params.
+ */
+export type OpenApiPathTemplates<
+  Paths,
+  Method extends HTTPMethod,
+  WithoutRequiredQueryParams extends boolean = false
+> = Paths extends undefined
+  ? string
+  : {
+      [PathTemplate in keyof Paths]: Paths[PathTemplate] extends {
+        readonly [M in Lowercase<Method>]: infer Op;
+      }
+        ? WithoutRequiredQueryParams extends true
+          ? Op extends { readonly parameters: { readonly query: object } }
+            ? never
+            : PathTemplate
+          : PathTemplate
+        : never;
+    }[keyof Paths] &
+      string;
+
+/**
+ * Path params of an OpenAPI operation, which is `never` if it has none.
+ */
+type OpenApiPathParams<Op> = Op extends {
+  readonly parameters: { readonly path: infer PathParams };
+}
+  ? PathParams
+  : never;
+
+/**
+ * Rest parameter tuple type for the path params argument of an OpenAPI
+ * operation, see `PathParamsArgs`.
+ */
+export type OpenApiPathParamsArgs<Op> = [OpenApiPathParams<Op>] extends [never]
+  ? []
+  : [pathParams: OpenApiPathParams<Op>];
+
+/**
+ * Query params of an OpenAPI operation, which is `never` if it has none.
+ */
+type OpenApiQueryParams<Op> = Op extends {
+  readonly parameters: { readonly query?: infer QueryParams };
+}
+  ? Exclude<QueryParams, undefined>
+  : never;
+
+/**
+ * Rest parameter tuple type for the query params and path params arguments of
+ * an OpenAPI operation, where the query params argument is required if the
+ * operation has required query params.
+ */
+export type OpenApiQueryAndPathParamsArgs<Op> = Op extends {
+  readonly parameters: { readonly query: object };
+}
+  ? [queryParams: OpenApiQueryParams<Op>, ...OpenApiPathParamsArgs<Op>]
+  : OpenApiPathParamsArgs<Op> extends []
+  ? [queryParams?: OpenApiQueryParams<Op>]
+  : [
+      queryParams: OpenApiQueryParams<Op> | undefined,
+      ...OpenApiPathParamsArgs<Op>
+    ];
+
+/**
+ * Union of the JSON content types of an OpenAPI response or request body.
+ */
+type OpenApiJsonContent<ResponseOrRequestBody> = ResponseOrRequestBody extends {
+  readonly content: infer Content;
+}
+  ? {
+      [MediaType in keyof Content]: MediaType extends `${string}json${string}`
+        ? Content[MediaType]
+        : never;
+    }[keyof Content]
+  : never;
+
+/**
+ * Union of the JSON content types of an OpenAPI operation's responses, for
+ * either the `2xx` status codes or every other status code.
+ */
+type OpenApiJsonResponses<Op, IsSuccess extends boolean> = Op extends {
+  readonly responses: infer Responses;
+}
+  ? {
+      [Status in keyof Responses]: (
+        `${Status & (string | number)}` extends `2${string}` ? true : false
+      ) extends IsSuccess
+        ? OpenApiJsonContent<Responses[Status]>
+        : never;
+    }[keyof Responses]
+  : never;
+
+/**
+ * Map of every status code of an OpenAPI operation's responses to the JSON
+ * response data type of that status code, which is `unknown` for responses
+ * without JSON content. This is `undefined` if there is no OpenAPI operation or
+ * OpenAPI responses to infer it from.
+ */
+export type OpenApiResponseStatusDataTypes<Op> = Op extends {
+  readonly responses: infer Responses;
+}
+  ? [keyof Responses] extends [never]
+    ? undefined
+    : {
+        [Status in keyof Responses]: [
+          OpenApiJsonContent<Responses[Status]>
+        ] extends [never]
+          ? unknown
+          : OpenApiJsonContent<Responses[Status]>;
+      }
+  : undefined;
+
+/**
+ * Type of the JSON request body of an OpenAPI operation, which is `any` if there
+ * is no OpenAPI operation to infer it from.
+ */
+export type OpenApiRequestBodyType<Op> = Op extends undefined
+  ? any
+  : Op extends { readonly requestBody?: infer RequestBody }
+  ? OpenApiJsonContent<Exclude<RequestBody, undefined>>
+  : never;
+
+/**
+ * Union of the JSON response data types of the `2xx` responses of an OpenAPI
+ * operation, which is `any` if there is no OpenAPI operation to infer it from.
+ */
+export type OpenApiResponseDataType<Op> = Op extends undefined
+  ? any
+  : [OpenApiJsonResponses<Op, true>] extends [never]
+  ? unknown
+  : OpenApiJsonResponses<Op, true>;
+
+/**
+ * Union of the JSON response data types of the non `2xx` responses of an
+ * OpenAPI operation, which is `any` if there is no OpenAPI operation to infer
+ * it from.
+ */
+export type OpenApiResponseExceptionDataType<Op> = Op extends undefined
+  ? any
+  : [OpenApiJsonResponses<Op, false>] extends [never]
+  ? unknown
+  : OpenApiJsonResponses<Op, false>;
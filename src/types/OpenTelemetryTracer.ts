@@ -0,0 +1,38 @@
+/**
+ * Attribute values accepted by OpenTelemetry spans.
+ */
+type OpenTelemetryAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The subset of the OpenTelemetry API's `Span` interface used by
+ * `createOpenTelemetryHandler`.
+ */
+export type OpenTelemetrySpan = {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  addEvent(
+    name: string,
+    attributes?: OpenTelemetryAttributes,
+    startTime?: number
+  ): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string, time?: number): unknown;
+  end(endTime?: number): void;
+};
+
+/**
+ * ## `OpenTelemetryTracer` Type
+ * The subset of the OpenTelemetry API's `Tracer` interface used by
+ * `createOpenTelemetryHandler`, which is declared here so that the
+ * OpenTelemetry packages are not needed at runtime. Any `Tracer` from
+ * `@opentelemetry/api`, e.g. `trace.getTracer("my-app")`, can be used.
+ */
+export type OpenTelemetryTracer = {
+  startSpan(
+    name: string,
+    options?: {
+      kind?: number;
+      attributes?: OpenTelemetryAttributes;
+      startTime?: number;
+    }
+  ): OpenTelemetrySpan;
+};
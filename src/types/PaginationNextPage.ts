@@ -0,0 +1,10 @@
+import type { QueryParams } from "./QueryParams";
+
+/**
+ * How to fetch the next page, either by merging the query params into the
+ * query params of the API call, or with a full URL like the ones from the
+ * `Link` header, which is resolved against the URL of the current page.
+ */
+export type PaginationNextPage =
+  | { readonly queryParams: QueryParams }
+  | { readonly url: string };
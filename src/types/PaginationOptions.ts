@@ -0,0 +1,23 @@
+/**
+ * Options for `Fetch.paginate`.
+ */
+export type PaginationOptions<ResponseDataType, Item> = {
+  /**
+   * Extract the items from a page's response data.
+   *
+   * Defaults to using the response data itself if it is an array, and no items
+   * otherwise.
+   */
+  getItems?: (data: ResponseDataType) => ReadonlyArray<Item>;
+
+  /**
+   * Stop after fetching this many pages.
+   */
+  maxPages?: number;
+
+  /**
+   * Stop after this many items, where `items()` yields at most this many
+   * items and `pages()` stops once this many items have been fetched.
+   */
+  maxItems?: number;
+};
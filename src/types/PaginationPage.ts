@@ -0,0 +1,30 @@
+/**
+ * A successfully fetched page, passed to `PaginationStrategy.getNextPage` to
+ * work out how to fetch the next page.
+ */
+export type PaginationPage<ResponseDataType, Item> = {
+  /**
+   * The parsed and validated response data of the page.
+   */
+  readonly data: ResponseDataType;
+
+  /**
+   * The items of the page, extracted with the `getItems` pagination option.
+   */
+  readonly items: ReadonlyArray<Item>;
+
+  /**
+   * Response headers of the page, e.g. to read the `Link` header.
+   */
+  readonly headers: Headers;
+
+  /**
+   * The full URL used to fetch the page, including query params.
+   */
+  readonly url: string;
+
+  /**
+   * The 1-based page number of the page.
+   */
+  readonly pageNumber: number;
+};
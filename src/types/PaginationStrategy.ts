@@ -0,0 +1,37 @@
+import type { PaginationNextPage } from "./PaginationNextPage";
+import type { PaginationPage } from "./PaginationPage";
+import type { QueryParams } from "./QueryParams";
+
+/**
+ * ## `PaginationStrategy` Type
+ * Strategy used by `Fetch.paginate` to work out how to fetch every page after
+ * the first page.
+ *
+ * Use the built in strategies like `cursorPagination` and `linkHeaderPagination`
+ * or implement your own for APIs that paginate in other ways.
+ *
+ * @example Custom strategy
+ * ```typescript
+ * const nextTokenPagination: PaginationStrategy<{ nextToken?: string }> = {
+ *   getNextPage: (page) =>
+ *     page.data.nextToken === undefined
+ *       ? undefined
+ *       : { queryParams: { token: page.data.nextToken } },
+ * };
+ * ```
+ */
+export type PaginationStrategy<ResponseDataType = unknown, Item = unknown> = {
+  /**
+   * Query params merged into the query params of the API call for the first
+   * page, e.g. to set the page size.
+   */
+  readonly initialQueryParams?: QueryParams;
+
+  /**
+   * Returns how to fetch the next page, or undefined if the given page is the
+   * last page.
+   */
+  readonly getNextPage: (
+    page: PaginationPage<ResponseDataType, Item>
+  ) => PaginationNextPage | undefined;
+};
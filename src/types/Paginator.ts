@@ -0,0 +1,26 @@
+import type { ApiResponse } from "./ApiResponse";
+
+/**
+ * Async iterables over the pages of a paginated API call, returned by
+ * `Fetch.paginate`. Every call to `pages()` and `items()` starts again from
+ * the first page.
+ */
+export type Paginator<ResponseDataType, ResponseExceptionDataType, Item> = {
+  /**
+   * Iterate over the API responses of every page, where a non ok response is
+   * yielded as the last page and the iteration ends after it, since the next
+   * page cannot be worked out without the page's response data. Check `ok` on
+   * every page to tell a failed page apart from the last page.
+   */
+  pages: () => AsyncIterable<
+    | (ApiResponse<ResponseDataType> & { ok: true })
+    | (ApiResponse<ResponseExceptionDataType> & { ok: false })
+  >;
+
+  /**
+   * Iterate over the items of every page, where a `HttpException` with the
+   * parsed response exception is thrown for the first non ok response, like
+   * `runAndThrowOnNonOk`.
+   */
+  items: () => AsyncIterable<Item>;
+};
@@ -0,0 +1,49 @@
+/**
+ * Union of all the `:name` style path param names in a path template.
+ */
+type ColonPathParamNames<PathTemplate extends string> =
+  PathTemplate extends `${string}/:${infer Param}/${infer Rest}`
+    ? Param | ColonPathParamNames<`/${Rest}`>
+    : PathTemplate extends `${string}/:${infer Param}`
+    ? Param
+    : never;
+
+/**
+ * Union of all the OpenAPI `{name}` style path param names in a path template.
+ */
+type BracePathParamNames<PathTemplate extends string> =
+  PathTemplate extends `${string}{${infer Param}}${infer Rest}`
+    ? Param | BracePathParamNames<Rest>
+    : never;
+
+/**
+ * Union of all the path param names in a path template string literal, where
+ * path params are either path segments that start with `:` or OpenAPI style
+ * `{name}` placeholders, e.g. for the path template
+ * `/users/:userId/posts/{postId}`, this is `"userId" | "postId"`.
+ *
+ * This is `never` if the path template has no path params, or if it is not a
+ * string literal type.
+ */
+export type PathParamNames<PathTemplate extends string> =
+  | ColonPathParamNames<PathTemplate>
+  | BracePathParamNames<PathTemplate>;
+
+/**
+ * Object type of all the path params in a path template string literal, which
+ * will be URL encoded before being used in the path.
+ */
+export type PathParams<PathTemplate extends string> = {
+  [Param in PathParamNames<PathTemplate>]: string | number;
+};
+
+/**
+ * Rest parameter tuple type for the path params argument, so that the path
+ * params argument is required if the path template has path params, and not
+ * allowed if it does not have any.
+ */
+export type PathParamsArgs<PathTemplate extends string> = [
+  PathParamNames<PathTemplate>
+] extends [never]
+  ? []
+  : [pathParams: PathParams<PathTemplate>];
@@ -0,0 +1,11 @@
+import type { TimeoutPhase } from "./TimeoutPhase";
+
+/**
+ * Timeouts in milliseconds for the phases of an API call other than the
+ * `response` phase, which is set with the `timeoutAfter` method instead.
+ *
+ * See `TimeoutPhase` for what each phase covers.
+ */
+export type PhaseTimeouts = {
+  readonly [Phase in Exclude<TimeoutPhase, "response">]?: number;
+};
@@ -0,0 +1,6 @@
+/**
+ * Priority of an API call set with the `priority` method, which decides the
+ * order that queued API calls are made in when concurrency limits are reached,
+ * and is passed to `fetch` as the `RequestInit.priority` hint.
+ */
+export type Priority = "high" | "normal" | "low";
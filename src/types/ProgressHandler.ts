@@ -0,0 +1,7 @@
+import type { TransferProgress } from "./TransferProgress";
+
+/**
+ * Function type for upload and download progress callbacks, which is called
+ * every time a chunk of the body is transferred.
+ */
+export type ProgressHandler = (progress: TransferProgress) => void;
@@ -0,0 +1,42 @@
+/**
+ * Primitive values that can be used as a query param value, where numbers and
+ * booleans are converted with `String()` and `Date`s are converted with
+ * `toISOString()`.
+ */
+export type QueryParamPrimitive = string | number | boolean | Date;
+
+/**
+ * All the values that a query param can have, including arrays and nested
+ * objects, which are serialized according to the `QuerySerializationOptions`.
+ *
+ * `undefined` values are always left out of the generated query params, while
+ * `null` values are serialized according to the `nulls` option.
+ */
+export type QueryParamValue =
+  | QueryParamPrimitive
+  | null
+  | undefined
+  | ReadonlyArray<QueryParamPrimitive | null | undefined>
+  | { readonly [key: string]: QueryParamValue };
+
+/**
+ * ## `QueryParams` Type
+ * Query params object type that can be passed to `pathWithQueryParams`.
+ *
+ * To declare the query params shape of an endpoint once, create a type for it
+ * and pass it in as the type argument of `pathWithQueryParams`.
+ *
+ * @example
+ * ```typescript
+ * type ListUsersQuery = {
+ *   page: number;
+ *   tags?: Array<string>;
+ *   filter?: { name?: string; createdAfter?: Date };
+ * };
+ *
+ * sf.GET()
+ *   .useSavedBaseUrl("v1")
+ *   .pathWithQueryParams<ListUsersQuery>("/users", { page: 1, tags: ["a"] });
+ * ```
+ */
+export type QueryParams = { readonly [key: string]: QueryParamValue };
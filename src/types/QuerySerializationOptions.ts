@@ -0,0 +1,38 @@
+/**
+ * Options for how query params are serialized into the URL's query string,
+ * which can be set per base URL with `BaseUrlConfig.querySerialization`.
+ */
+export type QuerySerializationOptions = {
+  /**
+   * How array values are serialized, where for `{ a: [1, 2] }`:
+   * - `"repeat"` generates `a=1&a=2`
+   * - `"comma"` generates `a=1,2`
+   * - `"bracket"` generates `a[]=1&a[]=2`
+   *
+   * `null` and `undefined` array items are always left out, and empty arrays do
+   * not generate any query params.
+   *
+   * Defaults to `"repeat"`.
+   */
+  readonly arrays?: "repeat" | "comma" | "bracket";
+
+  /**
+   * How nested object values are serialized, where for
+   * `{ filter: { name: "x" } }`:
+   * - `"deep-object"` generates `filter[name]=x`
+   * - `"dot"` generates `filter.name=x`
+   *
+   * Defaults to `"deep-object"`.
+   */
+  readonly objects?: "deep-object" | "dot";
+
+  /**
+   * How `null` values are serialized, where for `{ a: null }`:
+   * - `"empty"` generates `a=`
+   * - `"key-only"` generates `a`
+   * - `"omit"` leaves it out just like `undefined` values
+   *
+   * Defaults to `"empty"`.
+   */
+  readonly nulls?: "empty" | "key-only" | "omit";
+};
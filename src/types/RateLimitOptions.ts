@@ -0,0 +1,35 @@
+/**
+ * Options for the client side rate limiter of a base URL, set with
+ * `BaseUrlConfig.rateLimit`.
+ *
+ * API calls that exceed the limits are queued until they can be made, instead
+ * of failing.
+ */
+export type RateLimitOptions = {
+  /**
+   * Maximum number of API calls waiting for a response at the same time.
+   */
+  maxConcurrency?: number;
+
+  /**
+   * Maximum number of API calls made per `intervalInMilliseconds`, using a
+   * token bucket that allows bursts of up to this many API calls.
+   */
+  requestsPerInterval?: number;
+
+  /**
+   * Interval of `requestsPerInterval`.
+   *
+   * Defaults to 1000 milliseconds.
+   */
+  intervalInMilliseconds?: number;
+
+  /**
+   * Pause all API calls to the base URL until the rate limit resets, when a
+   * response has a `429` status code, or when its `RateLimit-Remaining` or
+   * `X-RateLimit-Remaining` header is 0.
+   *
+   * Defaults to true.
+   */
+  adaptToResponseHeaders?: boolean;
+};
@@ -1,6 +1,9 @@
 import type {
+  AbortException,
+  CircuitOpenException,
   TimeoutException,
   HeaderException,
+  HttpException,
   ValidationException,
 } from "../exceptions";
 
@@ -51,8 +54,19 @@ export type RequestException =
   // Exception returned when API call exceeds custom timeout limit.
   | TimeoutException
 
+  // Exception returned when API call is cancelled with an external AbortSignal.
+  | AbortException
+
   // Exception returned when a Header function throws an error.
   | HeaderException
 
+  // Exception returned without making the API call when the base URL's circuit
+  // breaker is open.
+  | CircuitOpenException
+
   // Exception returned when response fails runtime response validation.
-  | ValidationException;
+  | ValidationException
+
+  // Exception returned by `runSafelyAndExpectOk` when the response does not
+  // have a 2xx status code.
+  | HttpException;
@@ -0,0 +1,35 @@
+/**
+ * Trace context sent with an API call, which is available on
+ * `ApiResponse.traceContext` and on the `traceContext` property of the
+ * library's exceptions, so that API calls can be matched to the traces and
+ * logs of the API server.
+ */
+export type RequestTraceContext = {
+  /**
+   * The 32 character hex trace ID, which is the same for every API call made
+   * in the same trace.
+   */
+  traceId: string;
+
+  /**
+   * The 16 character hex span ID generated for this API call, which is sent
+   * as the parent ID of the `traceparent` header.
+   */
+  spanId: string;
+
+  /**
+   * The `traceparent` header value sent.
+   */
+  traceparent: string;
+
+  /**
+   * The `tracestate` header value sent, if any.
+   */
+  tracestate: string | undefined;
+
+  /**
+   * The request ID sent, which is undefined if the request ID header is
+   * disabled.
+   */
+  requestId: string | undefined;
+};
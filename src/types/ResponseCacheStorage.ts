@@ -0,0 +1,19 @@
+import type { CachedResponse } from "./CachedResponse";
+
+/**
+ * Storage interface used by the response cache, which can be implemented to
+ * store cached responses elsewhere, e.g. in `IndexedDB` or Redis.
+ *
+ * All methods can either be synchronous or asynchronous.
+ *
+ * The in memory `LruCacheStorage` is used by default.
+ */
+export type ResponseCacheStorage = {
+  get(
+    key: string
+  ): CachedResponse | undefined | Promise<CachedResponse | undefined>;
+
+  set(key: string, cachedResponse: CachedResponse): void | Promise<void>;
+
+  delete(key: string): void | Promise<void>;
+};
@@ -1,4 +1,9 @@
+import type { ResponseParserContext } from "./ResponseParserContext";
+
 /**
  * Function type for response parsing.
  */
-export type ResponseParser<T> = (res: Response) => Promise<T>;
+export type ResponseParser<T> = (
+  res: Response,
+  context: ResponseParserContext
+) => Promise<T>;
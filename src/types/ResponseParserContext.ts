@@ -0,0 +1,22 @@
+/**
+ * Context of the API call passed to response parsers as the 2nd argument,
+ * which is only needed by response parsers that outlive the `Response` they
+ * are given, like `parseResponseAsEventStream` which reconnects once the
+ * response body ends.
+ */
+export type ResponseParserContext = {
+  /**
+   * Make the API call again with freshly generated headers merged with the
+   * given headers, and resolve to its `Response` without parsing it.
+   *
+   * Rejects with a `HttpException` holding the parsed response exception if
+   * the response does not have a 2xx status code.
+   */
+  readonly refetch: (headers?: Record<string, string>) => Promise<Response>;
+
+  /**
+   * Abort signal of the API call, which is undefined if the API call cannot be
+   * cancelled.
+   */
+  readonly abortSignal: AbortSignal | undefined;
+};
@@ -0,0 +1,54 @@
+/**
+ * Configurations for retrying failed API calls, used with the `retry` method or
+ * as a base URL's `defaultRetryPolicy`.
+ *
+ * API calls are retried when the network request itself fails (`TypeError`),
+ * when the custom timeout set with `timeoutAfter` is exceeded
+ * (`TimeoutException`), or when the response status code is one of the
+ * `retryOnStatus` codes.
+ *
+ * Delays between attempts use exponential backoff, i.e. the delay doubles after
+ * every attempt starting from `initialDelayInMilliseconds` and capped at
+ * `maxDelayInMilliseconds`. If the response has a `Retry-After` header, it will
+ * be used as the delay instead, capped at `maxDelayInMilliseconds` too.
+ *
+ * Note that request bodies that can only be read once such as streams cannot be
+ * retried, since the body would have been consumed by the first attempt.
+ */
+export type RetryPolicy = {
+  /**
+   * Maximum number of attempts, including the first attempt. Defaults to 3.
+   */
+  readonly maxAttempts?: number;
+
+  /**
+   * Response status codes that should be retried. Defaults to 408, 429, 502,
+   * 503 and 504.
+   */
+  readonly retryOnStatus?: ReadonlyArray<number>;
+
+  /**
+   * Delay before the first retry, which is doubled on every subsequent retry.
+   * Defaults to 300 milliseconds.
+   */
+  readonly initialDelayInMilliseconds?: number;
+
+  /**
+   * Maximum delay between attempts, including delays set by the `Retry-After`
+   * response header. Defaults to 10 seconds.
+   */
+  readonly maxDelayInMilliseconds?: number;
+
+  /**
+   * Randomise delays between attempts so that multiple clients that failed at
+   * the same time do not all retry at the same time. Defaults to `true`.
+   */
+  readonly jitter?: boolean;
+
+  /**
+   * Non-idempotent HTTP methods like `POST` and `PATCH` are not retried unless
+   * this is explicitly set to `true`, since retrying them might cause the same
+   * operation to be applied more than once on the server.
+   */
+  readonly retryNonIdempotentMethods?: boolean;
+};
@@ -0,0 +1,27 @@
+/**
+ * A single event parsed from a `text/event-stream` response body by
+ * `parseResponseAsEventStream`.
+ */
+export type ServerSentEvent<T> = {
+  /**
+   * The event type, which is "message" if the event does not have one.
+   */
+  readonly event: string;
+
+  /**
+   * The event data, which is the raw string data unless the data is parsed as
+   * JSON with the `parseDataAsJson` option.
+   */
+  readonly data: T;
+
+  /**
+   * The last event ID set by the server, which is sent back with the
+   * `Last-Event-ID` header when reconnecting.
+   */
+  readonly id: string | undefined;
+
+  /**
+   * The reconnection delay hint in milliseconds sent with this event, if any.
+   */
+  readonly retry: number | undefined;
+};
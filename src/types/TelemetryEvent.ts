@@ -0,0 +1,119 @@
+import type { ApiResponseTiming } from "./ApiResponseTiming";
+import type { HTTPMethod } from "./HTTPMethod";
+
+/**
+ * Properties shared by every telemetry event of an API call.
+ */
+type TelemetryEventBase<Type extends string> = {
+  /**
+   * Type of the lifecycle event.
+   */
+  readonly type: Type;
+
+  /**
+   * ID of the API call that is unique within the JS runtime, which is the same
+   * for every event of an API call so that they can be correlated.
+   */
+  readonly apiCallId: number;
+
+  /**
+   * API call's HTTP Method.
+   */
+  readonly method: HTTPMethod;
+
+  /**
+   * Identifier of the saved base URL used, which is undefined if a custom URL
+   * is used with `useUrl` instead.
+   */
+  readonly baseUrlIdentifier: string | undefined;
+
+  /**
+   * The path template used to generate the API path before the path params are
+   * filled in, e.g. `/users/:userId`, which can be used as a stable route name
+   * for per endpoint metrics.
+   */
+  readonly pathTemplate: string;
+
+  /**
+   * The full generated URL from `Fetch.getUrl()`, including query params.
+   */
+  readonly url: string;
+
+  /**
+   * Time when the event is emitted, in milliseconds since the Unix epoch.
+   */
+  readonly timestamp: number;
+
+  /**
+   * Time since the API call started.
+   */
+  readonly elapsedInMilliseconds: number;
+};
+
+/**
+ * ## `TelemetryEvent` Type
+ * Lifecycle event of an API call emitted to the `telemetryHandlers` of the
+ * `SimplerFetch` instance, in the order of:
+ *
+ * 1. `requestStart` once the API call starts.
+ * 1. `headersResolved` once all the header functions are resolved.
+ * 1. `responseReceived` once the response headers are received.
+ * 1. `bodyParsed` once the response body is parsed.
+ * 1. `validated` once the response data is validated.
+ * 1. `completed` or `failed`, exactly one of which is always emitted last.
+ *
+ * Events for phases that are not reached are not emitted, e.g. an API call
+ * that fails while generating its headers only emits `requestStart` and
+ * `failed`. API calls that share a deduplicated API call only emit
+ * `requestStart`, `headersResolved` and their last event, since every other
+ * event is emitted for the shared API call.
+ *
+ * `durationInMilliseconds` is the time spent on the phase that just ended,
+ * i.e. the time since the previous event.
+ */
+export type TelemetryEvent =
+  | TelemetryEventBase<"requestStart">
+  | (TelemetryEventBase<"headersResolved"> & {
+      readonly durationInMilliseconds: number;
+    })
+  | (TelemetryEventBase<"responseReceived"> & {
+      readonly durationInMilliseconds: number;
+      readonly status: number;
+
+      /**
+       * Number of attempts made, including retries and auth replays.
+       */
+      readonly attempts: number;
+    })
+  | (TelemetryEventBase<"bodyParsed"> & {
+      readonly durationInMilliseconds: number;
+      readonly status: number;
+
+      /**
+       * Number of decoded bytes read from the response body, which is
+       * undefined for streaming responses since they are only read after the
+       * API call completes.
+       */
+      readonly sizeInBytes: number | undefined;
+    })
+  | (TelemetryEventBase<"validated"> & {
+      readonly durationInMilliseconds: number;
+      readonly status: number;
+      readonly didValidatorRun: boolean;
+    })
+  | (TelemetryEventBase<"completed"> & {
+      readonly status: number;
+      readonly ok: boolean;
+
+      /**
+       * Timing of every phase of the API call, which is undefined for
+       * `runAndGetRawResponse` since the response is not parsed.
+       */
+      readonly timing: ApiResponseTiming | undefined;
+    })
+  | (TelemetryEventBase<"failed"> & {
+      /**
+       * The exception that the API call failed with.
+       */
+      readonly error: unknown;
+    });
@@ -0,0 +1,26 @@
+import type { TelemetryEvent } from "./TelemetryEvent";
+
+/**
+ * ## `TelemetryHandler` Type
+ * Function called with every lifecycle event of every API call made through a
+ * `SimplerFetch` instance, used to record things like latency metrics, per
+ * endpoint success rates and traces, without wrapping every API call site.
+ *
+ * Handlers are called synchronously, so any slow work like sending the events
+ * to a server should be batched and done asynchronously. Any exceptions thrown
+ * by a handler are ignored so that they cannot fail the API call.
+ *
+ * @example Record the latency of every endpoint
+ * ```typescript
+ * const latencyRecorder: TelemetryHandler = (event) => {
+ *   if (event.type === "completed") {
+ *     metrics.record(
+ *       `${event.method} ${event.pathTemplate}`,
+ *       event.status,
+ *       event.elapsedInMilliseconds
+ *     );
+ *   }
+ * };
+ * ```
+ */
+export type TelemetryHandler = (event: TelemetryEvent) => void;
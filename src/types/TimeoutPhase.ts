@@ -0,0 +1,15 @@
+/**
+ * Phases of an API call that can be timed out.
+ *
+ * 1. `overall`: The whole API call, from header generation to response body
+ *    parsing and validation, including all retry attempts.
+ * 1. `headerGeneration`: Running all the header functions.
+ * 1. `response`: Each `fetch` attempt, until the response headers are received,
+ *    which is the timeout set with `timeoutAfter`.
+ * 1. `bodyRead`: Reading and parsing the response body.
+ */
+export type TimeoutPhase =
+  | "overall"
+  | "headerGeneration"
+  | "response"
+  | "bodyRead";
@@ -0,0 +1,24 @@
+/**
+ * Trace context of the current operation, e.g. the incoming request that is
+ * being handled, which API calls made during the operation are part of.
+ */
+export type TraceContext = {
+  /**
+   * The W3C `traceparent` header value of the current operation, whose trace
+   * ID is used for the API call. A new trace is started if this is not set or
+   * is not a valid `traceparent` header value.
+   */
+  traceparent?: string;
+
+  /**
+   * The W3C `tracestate` header value of the current operation, which is sent
+   * as is together with its `traceparent`.
+   */
+  tracestate?: string;
+
+  /**
+   * Request ID of the current operation, e.g. the correlation ID of the
+   * incoming request, which is sent instead of generating a new request ID.
+   */
+  requestId?: string;
+};
@@ -0,0 +1,20 @@
+import type { TraceContext } from "./TraceContext";
+
+/**
+ * Options for injecting the W3C `traceparent` and `tracestate` headers and a
+ * request ID header into every API call made with a `SimplerFetch` instance.
+ */
+export type TraceContextOptions = {
+  /**
+   * Get the trace context of the current operation, which is called once for
+   * every API call, e.g. to read it from Node's `AsyncLocalStorage`. A new
+   * trace and request ID are generated for API calls without one.
+   */
+  getCurrentContext?: () => TraceContext | undefined;
+
+  /**
+   * Name of the request ID header, which defaults to `X-Request-ID`. Set this
+   * to false to not send a request ID.
+   */
+  requestIdHeader?: string | false;
+};
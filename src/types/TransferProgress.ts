@@ -0,0 +1,15 @@
+/**
+ * Progress of a request body upload or a response body download.
+ */
+export type TransferProgress = {
+  /**
+   * Number of bytes transferred so far.
+   */
+  readonly loaded: number;
+
+  /**
+   * Total number of bytes to transfer, which is undefined if it is not known,
+   * e.g. for streams or compressed response bodies.
+   */
+  readonly total: number | undefined;
+};
@@ -3,10 +3,49 @@
  */
 
 export type * from "./ApiResponse";
+export type * from "./ApiResponseTiming";
+export type * from "./ApiResponseUnion";
+export type * from "./AuthProvider";
+export type * from "./AuthToken";
 export type * from "./BaseUrlConfig";
+export type * from "./CachedResponse";
+export type * from "./CacheMode";
+export type * from "./CircuitBreakerOptions";
+export type * from "./CircuitBreakerState";
+export type * from "./EndpointContract";
+export type * from "./EventStreamOptions";
+export type * from "./FetchFunction";
 export type * from "./Header";
 export type * from "./HTTPMethod";
+export type * from "./IsSameType";
 export type * from "./JsonTypeAlias";
+export type * from "./Middleware";
+export type * from "./MultipartFile";
+export type * from "./OpenApiPaths";
+export type * from "./OpenTelemetryTracer";
+export type * from "./PaginationNextPage";
+export type * from "./PaginationOptions";
+export type * from "./PaginationPage";
+export type * from "./PaginationStrategy";
+export type * from "./Paginator";
+export type * from "./PathParams";
+export type * from "./PhaseTimeouts";
+export type * from "./Priority";
+export type * from "./ProgressHandler";
+export type * from "./QueryParams";
+export type * from "./QuerySerializationOptions";
+export type * from "./RateLimitOptions";
 export type * from "./RequestException";
+export type * from "./RequestTraceContext";
+export type * from "./ResponseCacheStorage";
 export type * from "./ResponseParser";
+export type * from "./ResponseParserContext";
+export type * from "./RetryPolicy";
+export type * from "./ServerSentEvent";
+export type * from "./TelemetryEvent";
+export type * from "./TelemetryHandler";
+export type * from "./TimeoutPhase";
+export type * from "./TraceContext";
+export type * from "./TraceContextOptions";
+export type * from "./TransferProgress";
 export type * from "./Validator";
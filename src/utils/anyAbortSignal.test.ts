@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { anyAbortSignal } from "./anyAbortSignal";
+
+describe.each([
+  ["with AbortSignal.any", false],
+  ["without AbortSignal.any", true],
+])("anyAbortSignal %s", (_, removeAbortSignalAny) => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function setup() {
+    if (removeAbortSignalAny) {
+      // Subclass without the static `any` method to simulate older runtimes
+      class AbortSignalWithoutAny extends AbortSignal {
+        static override any = undefined as unknown as typeof AbortSignal.any;
+      }
+      vi.stubGlobal("AbortSignal", AbortSignalWithoutAny);
+    }
+  }
+
+  it("aborts when any of the signals is aborted, with its reason", () => {
+    setup();
+    const first = new AbortController();
+    const second = new AbortController();
+    const signal = anyAbortSignal([first.signal, second.signal]);
+
+    expect(signal.aborted).toBe(false);
+    second.abort("second");
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBe("second");
+
+    first.abort("first");
+    expect(signal.reason).toBe("second");
+  });
+
+  it("is aborted right away if a signal is already aborted", () => {
+    setup();
+    const signal = anyAbortSignal([
+      new AbortController().signal,
+      AbortSignal.abort("already"),
+    ]);
+
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBe("already");
+  });
+});
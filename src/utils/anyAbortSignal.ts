@@ -0,0 +1,38 @@
+/**
+ * Returns an `AbortSignal` that is aborted as soon as any of the given signals
+ * are aborted, with the reason of the first aborted signal.
+ *
+ * Uses `AbortSignal.any` where available, and falls back to linking the
+ * signals with abort event listeners on runtimes without it, such as NodeJS
+ * versions before 20.3 and Safari versions before 17.4.
+ */
+export function anyAbortSignal(signals: Array<AbortSignal>): AbortSignal {
+  // Type cast since `AbortSignal.any` is always defined in the DOM types even
+  // though it is missing on older runtimes.
+  if (typeof (AbortSignal as Partial<typeof AbortSignal>).any === "function") {
+    return AbortSignal.any(signals);
+  }
+
+  const abortController = new AbortController();
+
+  const alreadyAbortedSignal = signals.find((signal) => signal.aborted);
+  if (alreadyAbortedSignal !== undefined) {
+    abortController.abort(alreadyAbortedSignal.reason);
+    return abortController.signal;
+  }
+
+  // Remove the listeners from all the signals once any of them are aborted,
+  // so that long lived signals do not keep references to this signal.
+  const onAbort = (event: Event) => {
+    for (const signal of signals) {
+      signal.removeEventListener("abort", onAbort);
+    }
+    abortController.abort((event.target as AbortSignal).reason);
+  };
+
+  for (const signal of signals) {
+    signal.addEventListener("abort", onAbort, { once: true });
+  }
+
+  return abortController.signal;
+}
@@ -0,0 +1,21 @@
+import type { ProgressHandler } from "../types";
+
+/**
+ * Create a `TransformStream` that passes every chunk through as is while
+ * counting the bytes transferred, and calling the progress handler after every
+ * chunk.
+ */
+export function createProgressStream(
+  total: number | undefined,
+  progressHandler: ProgressHandler
+) {
+  let loaded = 0;
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      loaded += chunk.byteLength;
+      controller.enqueue(chunk);
+      progressHandler({ loaded, total });
+    },
+  });
+}
@@ -0,0 +1,13 @@
+import type { RetryPolicy } from "../types";
+
+/**
+ * Default values used for any `RetryPolicy` values not set by library users.
+ */
+export const defaultRetryPolicy = {
+  maxAttempts: 3,
+  retryOnStatus: [408, 429, 502, 503, 504],
+  initialDelayInMilliseconds: 300,
+  maxDelayInMilliseconds: 10000,
+  jitter: true,
+  retryNonIdempotentMethods: false,
+} as const satisfies Required<RetryPolicy>;
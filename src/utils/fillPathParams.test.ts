@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+
+import { SimplerFetchError } from "../errors";
+import { fillPathParams } from "./fillPathParams";
+
+describe("fillPathParams", () => {
+  it("fills colon style path params", () => {
+    expect(
+      fillPathParams("/users/:userId/posts/:postId", { userId: 1, postId: "a" })
+    ).toBe("/users/1/posts/a");
+  });
+
+  it("fills OpenAPI style path params anywhere in a path segment", () => {
+    expect(
+      fillPathParams("/files/{name}.json/{a}-{b}", { name: "x", a: 1, b: 2 })
+    ).toBe("/files/x.json/1-2");
+  });
+
+  it("URL encodes path param values", () => {
+    expect(
+      fillPathParams("/users/:id/{file}", { id: "a/b?c", file: "#" })
+    ).toBe("/users/a%2Fb%3Fc/%23");
+  });
+
+  it("leaves paths without path params as is", () => {
+    expect(fillPathParams("/users?page=1")).toBe("/users?page=1");
+  });
+
+  it("throws if a path param value is missing", () => {
+    expect(() => fillPathParams("/users/:id", {})).toThrow(SimplerFetchError);
+  });
+});
@@ -0,0 +1,28 @@
+import { SimplerFetchError } from "../errors";
+
+/**
+ * Replace all the path params in the path template with their URL encoded
+ * values, so that values with characters like `/` and `?` cannot change the
+ * structure of the URL.
+ */
+export const fillPathParams = (
+  pathTemplate: string,
+  pathParams: Record<string, string | number | boolean> = {}
+) =>
+  pathTemplate.replace(
+    // Supports both `/:name` and OpenAPI style `{name}` path params
+    /\/:([^/?#]+)|\{([^/}]+)\}/g,
+    (match, colonParam?: string, braceParam?: string) => {
+      const param = (colonParam ?? braceParam)!;
+      const value = pathParams[param];
+
+      if (value === undefined) {
+        throw new SimplerFetchError(
+          `Missing path param '${param}' for path '${pathTemplate}'`
+        );
+      }
+
+      const encodedValue = encodeURIComponent(value);
+      return match.startsWith("/") ? `/${encodedValue}` : encodedValue;
+    }
+  );
@@ -0,0 +1,83 @@
+import type {
+  QueryParamPrimitive,
+  QueryParamValue,
+  QueryParams,
+  QuerySerializationOptions,
+} from "../types";
+
+const serializePrimitive = (value: QueryParamPrimitive) =>
+  value instanceof Date ? value.toISOString() : String(value);
+
+/**
+ * Flatten a query params object into a list of key value pairs according to
+ * the given serialization options, where nested objects and arrays get their
+ * own keys like `filter[name]` and `a[]`.
+ *
+ * The value is `null` for `null` values serialized with the `"key-only"`
+ * option, and an array for arrays serialized with the `"comma"` option, so
+ * that the caller can decide how to encode the commas.
+ */
+export function flattenQueryParams(
+  queryParams: QueryParams,
+  {
+    arrays = "repeat",
+    objects = "deep-object",
+    nulls = "empty",
+  }: QuerySerializationOptions = {}
+) {
+  const pairs: Array<[key: string, value: string | Array<string> | null]> = [];
+
+  const flatten = (key: string, value: QueryParamValue): void => {
+    if (value === undefined) {
+      return;
+    }
+
+    if (value === null) {
+      if (nulls === "empty") {
+        pairs.push([key, ""]);
+      } else if (nulls === "key-only") {
+        pairs.push([key, null]);
+      }
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      const items = (value as Array<QueryParamPrimitive | null | undefined>)
+        .filter((item): item is QueryParamPrimitive => item != null)
+        .map(serializePrimitive);
+
+      if (items.length === 0) {
+        return;
+      }
+
+      if (arrays === "comma") {
+        pairs.push([key, items]);
+        return;
+      }
+
+      const arrayKey = arrays === "bracket" ? `${key}[]` : key;
+      for (const item of items) {
+        pairs.push([arrayKey, item]);
+      }
+      return;
+    }
+
+    if (typeof value === "object" && !(value instanceof Date)) {
+      for (const [nestedKey, nestedValue] of Object.entries(value)) {
+        flatten(
+          objects === "dot" ? `${key}.${nestedKey}` : `${key}[${nestedKey}]`,
+          nestedValue
+        );
+      }
+      return;
+    }
+
+    pairs.push([key, serializePrimitive(value)]);
+  };
+
+  for (const [key, value] of Object.entries(queryParams)) {
+    flatten(key, value);
+  }
+
+  return pairs;
+}
@@ -0,0 +1,64 @@
+import type { RetryPolicy } from "../types";
+
+import { defaultRetryPolicy } from "./defaultRetryPolicy";
+
+/**
+ * Parse the `Retry-After` header value into milliseconds, which can either be a
+ * number of seconds or a HTTP date.
+ *
+ * Returns `undefined` if there is no valid `Retry-After` value.
+ *
+ * https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Retry-After
+ */
+export function parseRetryAfterHeader(retryAfter: string | null) {
+  if (retryAfter === null) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (retryAfter.trim() !== "" && !Number.isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+
+  const date = Date.parse(retryAfter);
+  if (!Number.isNaN(date)) {
+    return Math.max(date - Date.now(), 0);
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the number of milliseconds to wait before making the next attempt, after
+ * the given attempt failed.
+ */
+export function getRetryDelay(
+  retryPolicy: RetryPolicy,
+  attempt: number,
+  response?: Response
+) {
+  const maxDelay =
+    retryPolicy.maxDelayInMilliseconds ??
+    defaultRetryPolicy.maxDelayInMilliseconds;
+
+  // Server's `Retry-After` hint takes precedence over the backoff delay
+  const retryAfter = parseRetryAfterHeader(
+    response?.headers.get("Retry-After") ?? null
+  );
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, maxDelay);
+  }
+
+  const delay = Math.min(
+    (retryPolicy.initialDelayInMilliseconds ??
+      defaultRetryPolicy.initialDelayInMilliseconds) *
+      2 ** (attempt - 1),
+    maxDelay
+  );
+
+  // Use "equal jitter" so that the delay is randomised while still being at
+  // least half of the backoff delay.
+  return retryPolicy.jitter ?? defaultRetryPolicy.jitter
+    ? delay / 2 + Math.random() * (delay / 2)
+    : delay;
+}
@@ -0,0 +1,11 @@
+import type { HTTPMethod } from "../types";
+
+/**
+ * Check if the HTTP method is idempotent, i.e. making the same request multiple
+ * times has the same effect on the server as making it once, which means that
+ * it is safe to retry.
+ *
+ * https://developer.mozilla.org/en-US/docs/Glossary/Idempotent
+ */
+export const isIdempotentMethod = (method: HTTPMethod) =>
+  method !== "POST" && method !== "PATCH";
@@ -0,0 +1,20 @@
+import type { OpenApiPaths } from "../types";
+
+/**
+ * Create the phantom `OpenApiPaths` type for `BaseUrlConfig.openApiPaths`, to
+ * infer the paths, path params, query params, request body and response types
+ * of API calls made with the base URL from an `openapi-typescript` style
+ * `paths` type.
+ *
+ * @example
+ * ```typescript
+ * import type { paths } from "./generated/api";
+ *
+ * const sf = new SimplerFetch({
+ *   baseUrlConfigs: {
+ *     api: { url: "https://example.com", openApiPaths: openApiPaths<paths>() },
+ *   },
+ * });
+ * ```
+ */
+export const openApiPaths = <Paths>() => ({} as OpenApiPaths<Paths>);
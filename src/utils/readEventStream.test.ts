@@ -0,0 +1,184 @@
+import { describe, expect, it, vi } from "vitest";
+
+import type { AuthProvider, ResponseParserContext } from "../types";
+
+import { HttpException, ValidationException } from "../exceptions";
+import { SimplerFetch } from "../SimplerFetch";
+import { createMockTransport } from "../testing";
+import { readEventStream } from "./readEventStream";
+
+/**
+ * Create a `ResponseParserContext` whose `refetch` resolves to the given
+ * responses in order.
+ */
+function createContext(...responses: Array<Response>) {
+  const refetch = vi.fn(async (_headers?: Record<string, string>) => {
+    const response = responses.shift();
+    if (response === undefined) {
+      throw new Error("No more responses");
+    }
+    return response;
+  });
+
+  return { refetch, abortSignal: undefined } satisfies ResponseParserContext;
+}
+
+async function collect<T>(iterable: AsyncIterable<T>) {
+  const items: Array<T> = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe("readEventStream", () => {
+  it("parses events following the event stream format", async () => {
+    const events = await collect(
+      readEventStream(
+        new Response(
+          "\uFEFFdata: first\ndata:second\n\n" +
+            ": keep alive comment\n" +
+            "event: update\nid: 1\nretry: 5000\ndata\n\n" +
+            "event: ignored without data\n\n" +
+            'data: {"a":1}\n\n'
+        ),
+        createContext(),
+        undefined,
+        { reconnect: false }
+      )
+    );
+
+    expect(events).toEqual([
+      {
+        event: "message",
+        data: "first\nsecond",
+        id: undefined,
+        retry: undefined,
+      },
+      { event: "update", data: "", id: "1", retry: 5000 },
+      { event: "message", data: '{"a":1}', id: "1", retry: undefined },
+    ]);
+  });
+
+  it("parses event data as JSON and validates it", async () => {
+    const isNumberData = (data: unknown): data is { n: number } =>
+      typeof (data as { n?: unknown }).n === "number";
+
+    await expect(
+      collect(
+        readEventStream(
+          new Response('data: {"n":1}\n\ndata: {"n":"x"}\n\n'),
+          createContext(),
+          isNumberData,
+          { reconnect: false, parseDataAsJson: true }
+        )
+      )
+    ).rejects.toThrow(ValidationException);
+  });
+
+  it("reconnects with the last event ID until the server responds with 204", async () => {
+    const context = createContext(
+      new Response("id: 2\ndata: b\n\n"),
+      new Response(null, { status: 204 })
+    );
+
+    const events = await collect(
+      readEventStream(new Response("id: 1\ndata: a\n\n"), context, undefined, {
+        defaultRetryInMilliseconds: 0,
+      })
+    );
+
+    expect(events.map(({ data }) => data)).toEqual(["a", "b"]);
+    expect(context.refetch).toHaveBeenNthCalledWith(1, {
+      "Last-Event-ID": "1",
+    });
+    expect(context.refetch).toHaveBeenNthCalledWith(2, {
+      "Last-Event-ID": "2",
+    });
+  });
+
+  it("resets the last event ID on an empty ID field", async () => {
+    const context = createContext(new Response(null, { status: 204 }));
+
+    const events = await collect(
+      readEventStream(
+        new Response("id: 1\ndata: a\n\nid\ndata: b\n\n"),
+        context,
+        undefined,
+        { defaultRetryInMilliseconds: 0 }
+      )
+    );
+
+    expect(events.map(({ id }) => id)).toEqual(["1", undefined]);
+    expect(context.refetch).toHaveBeenCalledWith(undefined);
+  });
+});
+
+describe("parseResponseAsEventStream reconnection", () => {
+  function setup(authProvider?: AuthProvider) {
+    const mock = createMockTransport<"v1">();
+    const sf = new SimplerFetch({
+      baseUrlConfigs: {
+        v1: { url: "https://example.com/v1", authProvider },
+      },
+      fetch: mock.fetch,
+    });
+
+    const events = async () => {
+      const [err, res] = await sf
+        .GET()
+        .useSavedBaseUrl("v1")
+        .path("/events")
+        .parseResponseAsEventStream(undefined, {
+          defaultRetryInMilliseconds: 0,
+        })
+        .parseResponseExceptionAsJson()
+        .finishConfig()
+        .runSafely();
+
+      if (err !== null || !res.ok) {
+        throw new Error("API call failed");
+      }
+
+      return collect(res.data);
+    };
+
+    return { mock, events };
+  }
+
+  it("throws a HttpException if a reconnection is not ok", async () => {
+    const { mock, events } = setup();
+
+    mock.on("GET /events", () => ({ body: "data: a\n\n" }), { times: 1 });
+    mock.on("GET /events", () => ({ status: 500, json: { message: "down" } }));
+
+    const error = await events().catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(HttpException);
+    expect((error as HttpException).status).toBe(500);
+    expect((error as HttpException).data).toEqual({ message: "down" });
+  });
+
+  it("replays reconnections rejected with 401 after refreshing the token", async () => {
+    let token = "expired";
+    const { mock, events } = setup({
+      getAuthHeaders: async () => ({ Authorization: token }),
+      onUnauthorized: async () => {
+        token = "refreshed";
+      },
+    });
+
+    mock.on("GET /events", () => ({ body: "data: a\n\n" }), { times: 1 });
+    mock.on("GET /events", ({ headers }) =>
+      headers["authorization"] === "refreshed"
+        ? { status: 204 }
+        : { status: 401, json: {} }
+    );
+
+    expect(await events()).toHaveLength(1);
+    expect(mock.calls.map(({ headers }) => headers["authorization"])).toEqual([
+      "expired",
+      "expired",
+      "refreshed",
+    ]);
+  });
+});
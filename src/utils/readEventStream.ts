@@ -0,0 +1,194 @@
+import type {
+  EventStreamOptions,
+  ResponseParserContext,
+  ServerSentEvent,
+  Validator,
+} from "../types";
+
+import {
+  AbortException,
+  TimeoutException,
+  ValidationException,
+} from "../exceptions";
+import { readTextLines } from "./readTextLines";
+import { sleep } from "./sleep";
+
+/**
+ * Read the response body as a `text/event-stream` following the HTML spec's
+ * event stream interpretation, validating every event's data with the optional
+ * validator.
+ *
+ * Unless disabled with the `reconnect` option, the API call is made again with
+ * the `Last-Event-ID` header after the server's `retry` hint once the response
+ * body ends or the connection is dropped. Like `EventSource`, reconnection
+ * stops once the server responds with `204 No Content`.
+ *
+ * Throws an `AbortException` once the API call is cancelled with its abort
+ * signal, a `ValidationException` if the validator returns false, and a
+ * `HttpException` if the server responds to a reconnection without a 2xx
+ * status code, which ends the iteration.
+ */
+export async function* readEventStream<T>(
+  response: Response,
+  context: ResponseParserContext,
+  dataValidator: Validator<T> | undefined,
+  options: EventStreamOptions
+): AsyncGenerator<ServerSentEvent<T>, void, undefined> {
+  const { abortSignal } = context;
+
+  const throwIfAborted = () => {
+    if (abortSignal?.aborted) {
+      throw new AbortException(abortSignal.reason);
+    }
+  };
+
+  let lastEventId: string | undefined;
+  let retryInMilliseconds = options.defaultRetryInMilliseconds ?? 3000;
+
+  for (let currentResponse = response; ; ) {
+    if (currentResponse.status === 204) {
+      await currentResponse.body?.cancel().catch(() => {});
+      return;
+    }
+
+    const lines = readTextLines(currentResponse.body);
+
+    let eventType = "";
+    let dataLines: Array<string> = [];
+    let retry: number | undefined;
+    let isFirstLine = true;
+
+    try {
+      while (true) {
+        // Lines that are already buffered can still be read after the API
+        // call is cancelled, which should not be dispatched.
+        throwIfAborted();
+
+        let result: IteratorResult<string, void>;
+
+        // Only errors from reading the response body are treated as dropped
+        // connections, so that exceptions like `ValidationException` are not
+        // swallowed by reconnecting.
+        try {
+          result = await lines.next();
+        } catch (error) {
+          throwIfAborted();
+
+          if (options.reconnect === false) {
+            throw error;
+          }
+
+          break;
+        }
+
+        if (result.done) {
+          break;
+        }
+
+        // Byte order mark is only allowed at the start of the stream
+        const line = isFirstLine
+          ? result.value.replace(/^\uFEFF/, "")
+          : result.value;
+        isFirstLine = false;
+
+        // Blank lines dispatch the buffered event, where events without any
+        // data are discarded.
+        if (line === "") {
+          if (dataLines.length > 0) {
+            const rawData = dataLines.join("\n");
+            const data = options.parseDataAsJson
+              ? JSON.parse(rawData)
+              : rawData;
+
+            if (dataValidator !== undefined && !dataValidator(data)) {
+              throw new ValidationException(
+                "Server-sent event data validation Failed"
+              );
+            }
+
+            yield {
+              event: eventType === "" ? "message" : eventType,
+              data,
+              id: lastEventId,
+              retry,
+            };
+          }
+
+          eventType = "";
+          dataLines = [];
+          retry = undefined;
+          continue;
+        }
+
+        // Lines starting with a colon are comments, e.g. for keep alive
+        if (line.startsWith(":")) {
+          continue;
+        }
+
+        const colonIndex = line.indexOf(":");
+        const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+        const rawValue = colonIndex === -1 ? "" : line.slice(colonIndex + 1);
+        const value = rawValue.startsWith(" ") ? rawValue.slice(1) : rawValue;
+
+        switch (field) {
+          case "event":
+            eventType = value;
+            break;
+
+          case "data":
+            dataLines.push(value);
+            break;
+
+          case "id":
+            // An empty ID resets the last event ID, so that the
+            // `Last-Event-ID` header is not sent when reconnecting.
+            if (!value.includes("\0")) {
+              lastEventId = value === "" ? undefined : value;
+            }
+            break;
+
+          case "retry":
+            if (/^\d+$/.test(value)) {
+              retry = Number(value);
+              retryInMilliseconds = retry;
+            }
+            break;
+        }
+      }
+    } finally {
+      // Cancels the response body if the iteration is stopped early
+      await lines.return();
+    }
+
+    if (options.reconnect === false) {
+      return;
+    }
+
+    // Keep reconnecting on network failures and timeouts until a response is
+    // received or the API call is cancelled.
+    let nextResponse: Response | undefined;
+
+    while (nextResponse === undefined) {
+      await sleep(retryInMilliseconds, abortSignal);
+      throwIfAborted();
+
+      try {
+        nextResponse = await context.refetch(
+          lastEventId === undefined
+            ? undefined
+            : { "Last-Event-ID": lastEventId }
+        );
+      } catch (error) {
+        throwIfAborted();
+
+        if (
+          !(error instanceof TypeError || error instanceof TimeoutException)
+        ) {
+          throw error;
+        }
+      }
+    }
+
+    currentResponse = nextResponse;
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+
+import { ValidationException } from "../exceptions";
+import { readNdjson } from "./readNdjson";
+
+async function collect<T>(iterable: AsyncIterable<T>) {
+  const items: Array<T> = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+const isNumber = (data: unknown): data is number => typeof data === "number";
+
+describe("readNdjson", () => {
+  it("parses every non blank line as JSON", async () => {
+    const items = await collect(
+      readNdjson(new Response('1\r\n{"a":2}\n\n  \n[3]').body)
+    );
+
+    expect(items).toEqual([1, { a: 2 }, [3]]);
+  });
+
+  it("throws a ValidationException with the line number of a malformed line", async () => {
+    const items: Array<unknown> = [];
+    const error = await (async () => {
+      for await (const item of readNdjson(
+        new Response("1\n\n{not json}\n4\n").body
+      )) {
+        items.push(item);
+      }
+    })().catch((error: unknown) => error);
+
+    expect(items).toEqual([1]);
+    expect(error).toBeInstanceOf(ValidationException);
+    expect((error as ValidationException).lineNumber).toBe(3);
+    expect((error as ValidationException).message).toContain("line 3");
+    expect((error as ValidationException).cause).toBeInstanceOf(SyntaxError);
+  });
+
+  it("throws a ValidationException with the line number of an invalid item", async () => {
+    const error = await collect(
+      readNdjson(new Response('1\n"2"\n3').body, isNumber)
+    ).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(ValidationException);
+    expect((error as ValidationException).lineNumber).toBe(2);
+    expect((error as ValidationException).cause).toBeUndefined();
+  });
+});
@@ -0,0 +1,47 @@
+import type { Validator } from "../types";
+
+import { ValidationException } from "../exceptions";
+import { readTextLines } from "./readTextLines";
+
+/**
+ * Read the stream as newline delimited JSON, parsing every non blank line as a
+ * JSON value and validating it with the optional validator.
+ *
+ * Throws a `ValidationException` with the 1-based line number of the item when
+ * the line is not valid JSON, with the `SyntaxError` as its `cause`, or when the
+ * validator returns false, which ends the iteration.
+ */
+export async function* readNdjson<T>(
+  stream: ReadableStream<Uint8Array> | null,
+  itemValidator?: Validator<T>
+): AsyncGenerator<T, void, undefined> {
+  let lineNumber = 0;
+
+  for await (const line of readTextLines(stream)) {
+    lineNumber++;
+
+    if (line.trim() === "") {
+      continue;
+    }
+
+    let item: T;
+    try {
+      item = JSON.parse(line);
+    } catch (error) {
+      throw new ValidationException(
+        `Response item is not valid JSON on line ${lineNumber}`,
+        lineNumber,
+        { cause: error }
+      );
+    }
+
+    if (itemValidator !== undefined && !itemValidator(item)) {
+      throw new ValidationException(
+        `Response item validation Failed on line ${lineNumber}`,
+        lineNumber
+      );
+    }
+
+    yield item;
+  }
+}
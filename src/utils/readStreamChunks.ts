@@ -0,0 +1,32 @@
+/**
+ * Read the stream chunk by chunk as an async iterable, without buffering the
+ * whole stream in memory.
+ *
+ * The stream is cancelled if the library user stops iterating early, e.g. by
+ * breaking out of a `for await` loop, so that the underlying connection can be
+ * closed.
+ */
+export async function* readStreamChunks(
+  stream: ReadableStream<Uint8Array> | null
+): AsyncGenerator<Uint8Array, void, undefined> {
+  if (stream === null) {
+    return;
+  }
+
+  const reader = stream.getReader();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    // Cancelling a fully read stream is a no-op, and failures are ignored as
+    // the library user is no longer reading the stream.
+    await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
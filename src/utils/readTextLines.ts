@@ -0,0 +1,27 @@
+import { readStreamChunks } from "./readStreamChunks";
+
+/**
+ * Read the stream as UTF-8 text line by line, supporting both `\n` and `\r\n`
+ * line endings. The last line is yielded even if it does not end with a line
+ * ending, while the empty line after a trailing line ending is not.
+ */
+export async function* readTextLines(
+  stream: ReadableStream<Uint8Array> | null
+): AsyncGenerator<string, void, undefined> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for await (const chunk of readStreamChunks(stream)) {
+    // Stream mode keeps multi byte characters split across chunks intact
+    buffer += decoder.decode(chunk, { stream: true });
+
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() as string;
+    yield* lines;
+  }
+
+  buffer += decoder.decode();
+  if (buffer !== "") {
+    yield buffer;
+  }
+}
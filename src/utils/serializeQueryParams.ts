@@ -0,0 +1,34 @@
+import type { QueryParams, QuerySerializationOptions } from "../types";
+
+import { flattenQueryParams } from "./flattenQueryParams";
+
+/**
+ * Serialize a query params object into a query string without the leading `?`,
+ * according to the given serialization options.
+ *
+ * Keys and values are percent encoded the same way as `URLSearchParams` except
+ * for `[` and `]` in keys, so that bracket and deep-object style keys stay
+ * readable.
+ */
+export function serializeQueryParams(
+  queryParams: QueryParams,
+  querySerializationOptions?: QuerySerializationOptions
+) {
+  const encode = (string: string) =>
+    new URLSearchParams([["", string]]).toString().slice(1);
+  const encodeKey = (key: string) =>
+    encode(key).replace(/%5B/g, "[").replace(/%5D/g, "]");
+
+  return flattenQueryParams(queryParams, querySerializationOptions)
+    .map(([key, value]) => {
+      if (value === null) {
+        return encodeKey(key);
+      }
+
+      // Commas between array items are not encoded for the "comma" option
+      return `${encodeKey(key)}=${
+        Array.isArray(value) ? value.map(encode).join(",") : encode(value)
+      }`;
+    })
+    .join("&");
+}
@@ -0,0 +1,17 @@
+/**
+ * Returns a Promise that resolves after the given number of milliseconds, or
+ * as soon as the optional `AbortSignal` is aborted so that callers do not have
+ * to wait for the full duration before handling the abort.
+ */
+export const sleep = (milliseconds: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timeoutID = setTimeout(resolve, milliseconds);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timeoutID);
+        resolve();
+      },
+      { once: true }
+    );
+  });
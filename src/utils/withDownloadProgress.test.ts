@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { withDownloadProgress } from "./withDownloadProgress";
+
+describe("withDownloadProgress", () => {
+  it("reports the download progress while reading the body", async () => {
+    const progressHandler = vi.fn();
+    const response = withDownloadProgress(
+      new Response("hello", { headers: { "Content-Length": "5" } }),
+      progressHandler
+    );
+
+    expect(await response.text()).toBe("hello");
+    expect(progressHandler).toHaveBeenLastCalledWith({ loaded: 5, total: 5 });
+  });
+
+  it("keeps the properties of the original response", () => {
+    const original = new Response("hello", {
+      status: 201,
+      statusText: "Created",
+    });
+    Object.defineProperties(original, {
+      url: { value: "https://example.com/users" },
+      redirected: { value: true },
+      type: { value: "cors" },
+    });
+
+    const response = withDownloadProgress(original, () => {});
+
+    expect(response).not.toBe(original);
+    expect(response).toBeInstanceOf(Response);
+    expect(response.status).toBe(201);
+    expect(response.statusText).toBe("Created");
+    expect(response.url).toBe("https://example.com/users");
+    expect(response.redirected).toBe(true);
+    expect(response.type).toBe("cors");
+  });
+
+  it("does not wrap responses without a body", () => {
+    const original = new Response(null, { status: 204 });
+
+    expect(withDownloadProgress(original, () => {})).toBe(original);
+  });
+});
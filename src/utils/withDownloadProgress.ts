@@ -0,0 +1,46 @@
+import type { ProgressHandler } from "../types";
+
+import { createProgressStream } from "./createProgressStream";
+
+/**
+ * Wrap the response so that reading its body reports the download progress,
+ * while still being a normal `Response` that can be used by any response
+ * parser, with the same `url`, `redirected` and `type` as the original
+ * `Response`.
+ */
+export function withDownloadProgress(
+  response: Response,
+  progressHandler: ProgressHandler
+) {
+  if (response.body === null) {
+    return response;
+  }
+
+  const contentLength = Number(response.headers.get("Content-Length") ?? NaN);
+  const contentEncoding = response.headers.get("Content-Encoding");
+
+  // Content-Length is the size of the encoded body, which cannot be compared
+  // with the number of decoded bytes read from the body.
+  const total =
+    Number.isFinite(contentLength) &&
+    (contentEncoding === null || contentEncoding === "identity")
+      ? contentLength
+      : undefined;
+
+  const wrappedResponse = new Response(
+    response.body.pipeThrough(createProgressStream(total, progressHandler)),
+    {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    }
+  );
+
+  // These cannot be set with the `Response` constructor, so they are defined
+  // on the instance to shadow the getters of `Response.prototype`.
+  return Object.defineProperties(wrappedResponse, {
+    url: { value: response.url },
+    redirected: { value: response.redirected },
+    type: { value: response.type },
+  });
+}
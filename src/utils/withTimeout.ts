@@ -0,0 +1,38 @@
+import type { TimeoutPhase } from "../types";
+
+import { TimeoutException } from "../exceptions";
+
+/**
+ * Wrap a Promise so that it rejects with a `TimeoutException` for the given
+ * phase if it does not settle within the timeout. The Promise is returned
+ * as is if there is no timeout.
+ *
+ * `onTimeout` is called with the `TimeoutException` when the timeout is
+ * exceeded, so that callers can clean up, e.g. abort the underlying API call.
+ */
+export function withTimeout<T>(
+  promise: Promise<T>,
+  phase: TimeoutPhase,
+  timeoutInMilliseconds: number | undefined,
+  onTimeout?: (timeoutException: TimeoutException) => void
+): Promise<T> {
+  if (timeoutInMilliseconds === undefined) {
+    return promise;
+  }
+
+  let timeoutID: ReturnType<typeof setTimeout>;
+
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timeoutID = setTimeout(() => {
+        const timeoutException = new TimeoutException(
+          phase,
+          timeoutInMilliseconds
+        );
+        onTimeout?.(timeoutException);
+        reject(timeoutException);
+      }, timeoutInMilliseconds);
+    }),
+  ]).finally(() => clearTimeout(timeoutID));
+}
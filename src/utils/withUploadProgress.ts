@@ -0,0 +1,52 @@
+import type { ProgressHandler } from "../types";
+
+import { createProgressStream } from "./createProgressStream";
+
+/**
+ * Get the size of the request body in bytes if it can be known before reading
+ * it, which is not possible for streams and `FormData`.
+ */
+function getBodySize(body: BodyInit) {
+  if (body instanceof Blob) {
+    return body.size;
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return body.byteLength;
+  }
+  if (typeof body === "string" || body instanceof URLSearchParams) {
+    return new TextEncoder().encode(body.toString()).byteLength;
+  }
+  return undefined;
+}
+
+/**
+ * Convert the request body into a stream that reports the upload progress as
+ * it is read by `fetch`, together with the content type that `fetch` would
+ * have generated for the original request body, since `fetch` does not
+ * generate content types for streams.
+ *
+ * Streaming request bodies require the `duplex: "half"` `RequestInit` option.
+ */
+export function withUploadProgress(
+  body: BodyInit,
+  progressHandler: ProgressHandler
+) {
+  const progressStream = createProgressStream(
+    getBodySize(body),
+    progressHandler
+  );
+
+  if (body instanceof ReadableStream) {
+    return { body: body.pipeThrough(progressStream), contentType: null };
+  }
+
+  // Use the `Request` constructor to convert any other request body type into
+  // a stream and to generate its content type, e.g. the multipart boundary for
+  // `FormData` request bodies.
+  const request = new Request("http://localhost", { method: "POST", body });
+
+  return {
+    body: request.body!.pipeThrough(progressStream),
+    contentType: request.headers.get("Content-Type"),
+  };
+}